@@ -1,3 +1,5 @@
+import { PrivateKey } from '@hashgraph/sdk';
+
 export interface EnvironmentConfig {
     HEDERA_NETWORK?: string;
     HEDERA_ACCOUNT_ID?: string;
@@ -5,8 +7,45 @@ export interface EnvironmentConfig {
     OPENAI_KEY?: string;
     AI_GATEWAY_API_KEY?: string;
     LYNX_CONTRACT?: string;
+    LYNX_RATIOS_FUNCTION?: string;
+    LYNX_GOVERNANCE_UPDATE_FUNCTION?: string;
     CURRENT_ROUND_VOTING_TOPIC?: string;
     TOKEN_RATIO_SNAPSHOT_TOPIC?: string;
     BALANCER_ALERT_TOPIC?: string;
     DASHBOARD_ALERT_TOPIC?: string;
-}
\ No newline at end of file
+    VOTE_RECEIPT_TOPIC?: string;
+    GOVERNANCE_STATE_FILE?: string;
+    REPLAY_VOTING_TOPIC?: string;
+    QUORUM_THRESHOLD?: string;
+    ROUND_DURATION_HOURS?: string;
+    TALLY_STRATEGY?: string;
+    RATIO_RECONCILIATION_POLICY?: string;
+    MIRROR_NODE_URL?: string;
+    GOVERNANCE_TOKEN_ID?: string;
+    VOTING_POWER_POLICY?: string;
+    REQUIRE_VOTE_SIGNATURE?: string;
+    TOKEN_REGISTRY_FILE?: string;
+    RATIO_POLICY_FILE?: string;
+    DRY_RUN?: string;
+    DRY_RUN_PLAN_FILE?: string;
+    EXECUTION_TIMELOCK_HOURS?: string;
+    GUARDIAN_ACCOUNTS?: string;
+    GOVERNANCE_CONTROL_TOPIC?: string;
+    CONTRACT_ROLE?: string;
+    EXECUTION_MODE?: string;
+    SCHEDULE_SIGNERS?: string;
+    SCHEDULE_PAYER_ACCOUNT?: string;
+    SCHEDULE_EXPIRY_HOURS?: string;
+    SCHEDULE_POLL_SECONDS?: string;
+    ALERT_OUTBOX_FILE?: string;
+}
+
+// Operator keys are given either DER encoded or as raw hex
+export function parseOperatorKey(key: string): PrivateKey {
+    try {
+        return PrivateKey.fromStringDer(key);
+    } catch {
+        console.log('DER format failed, trying regular format...');
+        return PrivateKey.fromString(key);
+    }
+}
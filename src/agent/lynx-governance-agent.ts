@@ -1,69 +1,293 @@
 import { config } from 'dotenv';
-import { EnvironmentConfig } from './agent-env.js';
-import { Client, TopicMessage, TopicMessageQuery, PrivateKey } from '@hashgraph/sdk';
-import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
-import { AgentMode, coreConsensusPlugin, coreQueriesPlugin, HederaLangchainToolkit } from 'hedera-agent-kit';
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { EnvironmentConfig, parseOperatorKey } from './agent-env.js';
+import { Client, PrivateKey, PublicKey } from '@hashgraph/sdk';
+import type { AgentExecutor } from 'langchain/agents';
+import type { HederaLangchainToolkit } from 'hedera-agent-kit';
 import { CalculateWinningRatiosTool } from '../tools/calculate_winning_ratios.js';
 import { UpdateLynxContractTool } from '../tools/update_lynx_contract.js';
 import { ParseHCS2VoteTool } from '../tools/parse_hcs2_vote.js';
 import { CreateTokenSnapshotTool } from '../tools/create_token_snapshot.js';
+import { parseHCS2Vote } from '../governance/parse-vote.js';
+import { ContractRole, ContractRoleSchema, ReconciliationPolicySchema, TallyStrategyNameSchema, TokenRatios } from '../typescript/governance.js';
+import { GovernanceState, RecordedVote, RejectedVote } from '../typescript/state.js';
+import { tallyVotes, toTokenRatios } from '../governance/tally.js';
+import { reconcileRatios } from '../governance/reconcile.js';
+import { GovernanceStateStore, createGovernanceState } from '../state/state-store.js';
+import { FileStateStore } from '../state/file-state-store.js';
+import { MirrorNodeVotingPowerProvider, VotingPowerCheck, VotingPowerPolicy, VotingPowerProvider, mirrorNodeUrlFor, verifyVotingPower } from '../governance/voting-power.js';
+import { AccountKeyResolver, MirrorNodeAccountKeyResolver, VoteAuthOptions, authenticateVote } from '../governance/vote-auth.js';
+import { MultiRatioVote, VoteRejection } from '../typescript/vote.js';
+import { RoundStatus } from '../typescript/round.js';
+import { TokenRegistry, loadTokenRegistry } from '../governance/token-registry.js';
+import { validateVote } from '../governance/vote-validation.js';
+import { GovernanceExecutor, TransportExecutor } from '../execution/executor.js';
+import { DryRunExecutor } from '../execution/dry-run-executor.js';
+import { ConsensusMessage, ConsensusTransport, HederaConsensusTransport, Subscription } from '../transport/consensus-transport.js';
+import { ContractGateway, HederaContractGateway } from '../transport/contract-gateway.js';
+import { RoundConfig, closeRound, createRound, hasReachedQuorum, isFinal, isPastDeadline } from '../governance/round.js';
+import { GovernanceAlert } from '../typescript/alert.js';
+import { createAlert, idempotencyKey, serializeAlert } from '../alerts/alert-catalog.js';
+import { MessageOutbox, OutboxSubmission } from '../execution/outbox.js';
+import { setTimeoutAt } from '../execution/timer.js';
+import { OutboxMessage } from '../typescript/outbox.js';
+import { OutboxStore } from '../state/outbox-store.js';
+import { FileOutboxStore } from '../state/file-outbox-store.js';
+import { ratioDifferences, readContractRatios } from '../governance/contract-ratios.js';
+import { applyRatioPolicy, loadRatioPolicy } from '../governance/ratio-policy.js';
+import { PolicyOutcome, RatioPolicyConfig } from '../typescript/policy.js';
+import { PendingExecutionRecord, VetoMessage } from '../typescript/timelock.js';
+import { VoteReceipt } from '../typescript/receipt.js';
+import { TokenRatioSnapshotDataSchema } from '../typescript/snapshot.js';
+import { DEFAULT_VETO_GRACE_MS, TimelockConfig, authenticateVeto, isTimelockElapsed, parseVetoMessage } from '../governance/timelock.js';
+import { HederaScheduleGateway, ScheduleGateway, ScheduleStatus } from '../transport/schedule-gateway.js';
+import { DEFAULT_SCHEDULE_POLL_MS, ScheduledExecutionConfig, signedAccounts } from '../execution/scheduled-execution.js';
+import { DEFAULT_GOVERNANCE_UPDATE_FUNCTION, RoleHolders, accountEvmAddress, fetchEvmAlias, formatAddress, readRoleHolders, roleFor, updateFunctionFor } from '../governance/contract-roles.js';
 
 config();
 
-const QUORUM_THRESHOLD = 1000;
+const DEFAULT_QUORUM_THRESHOLD = 1000;
+const DEFAULT_ROUND_DURATION_HOURS = 24;
+// Time the voting topic subscription gets to deliver the history before the deadline timer closes replayed rounds
+const REPLAY_CATCH_UP_MS = 30_000;
+// Backoff between attempts to read a voter's balance while the mirror node is unavailable
+const VOTING_POWER_RETRY_BASE_MS = 1_000;
+const VOTING_POWER_RETRY_MAX_MS = 60_000;
+
+type MessageCheckpoint = Required<Pick<GovernanceState, 'lastSequenceNumber' | 'lastConsensusTimestamp'>>;
+
+type ContractUpdateOutcome =
+    | { status: 'updated'; transactionId?: string }
+    | { status: 'unchanged' }
+    | { status: 'scheduled' }
+    | { status: 'failed'; reason: string };
+
+// Statuses in which the round's result is decided but not yet on the contract
+const AWAITING_EXECUTION: RoundStatus[] = ['TIMELOCKED', 'SCHEDULED'];
+
+export interface LynxGovernanceAgentOptions {
+    // Configuration read instead of process.env (e.g. by the scenario runner)
+    environment?: EnvironmentConfig;
+    stateStore?: GovernanceStateStore;
+    // Where undelivered alerts are kept until a receipt confirms them
+    outboxStore?: OutboxStore;
+    // Discard saved state and rebuild the round from the start of the voting topic
+    replayFromStart?: boolean;
+    votingPowerProvider?: VotingPowerProvider;
+    votingPowerPolicy?: VotingPowerPolicy;
+    keyResolver?: AccountKeyResolver;
+    roundConfig?: RoundConfig;
+    tokenRegistry?: TokenRegistry;
+    // Guardrails between the tally and the contract update (defaults to config/policy.json)
+    ratioPolicy?: RatioPolicyConfig;
+    // Delay execution so guardians can veto (null disables; defaults to EXECUTION_TIMELOCK_HOURS)
+    timelock?: TimelockConfig | null;
+    // Execute through a scheduled transaction signed by several keys (null executes directly;
+    // defaults to EXECUTION_MODE=scheduled)
+    scheduledExecution?: ScheduledExecutionConfig | null;
+    // Role to update the contract with; 'auto' (default) detects it and refuses to start without one
+    contractRole?: ContractRole | 'auto';
+    // Key of HEDERA_ACCOUNT_ID that signs snapshots (defaults to HEDERA_PRIVATE_KEY)
+    operatorKey?: PrivateKey;
+    // Simulate contract updates, snapshots and alerts instead of submitting them
+    dryRun?: boolean;
+    executor?: GovernanceExecutor;
+    // Injecting both runs the whole flow without a Hedera client or LLM (e.g. in-memory)
+    consensusTransport?: ConsensusTransport;
+    contractGateway?: ContractGateway;
+    scheduleGateway?: ScheduleGateway;
+}
 
 export class LynxGovernanceAgent {
     private environment: EnvironmentConfig;
     private hederaAgentToolkit?: HederaLangchainToolkit;
     private agentExecutor?: AgentExecutor;
     private client?: Client;
+    private updateContractTool?: UpdateLynxContractTool;
+    private createSnapshotTool?: CreateTokenSnapshotTool;
     private isRunning: boolean = false;
     
-    // State management for governance
-    private collectedVotes: any[] = [];
-    private currentVotingPower: number = 0;
+    // State management for governance (persisted so a restart resumes the round)
+    private stateStore: GovernanceStateStore;
+    private state: GovernanceState;
+    private processingQueue: Promise<void> = Promise.resolve();
+    private roundConfig: RoundConfig;
+    private deadlineTimer?: NodeJS.Timeout;
+    private timelock: TimelockConfig | null;
+    private timelockTimer?: NodeJS.Timeout;
+    private scheduledExecution: ScheduledExecutionConfig | null;
+    private scheduleTimer?: NodeJS.Timeout;
+    // Messages queued by an earlier voting topic subscription are dropped once it is replaced
+    private subscriptionGeneration = 0;
+    private controlSubscription?: Subscription;
+    private vetoCatchUpUntil = 0;
+    private replayFromStart: boolean;
+    // Messages before this consensus time are history; rounds decided by them are not executed again
+    private replayUntil?: Date;
+    private replayCatchUpUntil = 0;
+    private votingPowerProvider?: VotingPowerProvider;
+    private votingPowerPolicy: VotingPowerPolicy;
+    private voteAuthOptions: VoteAuthOptions;
+    private tokenRegistry: TokenRegistry;
+    private ratioPolicy: RatioPolicyConfig;
+    private executor?: GovernanceExecutor;
+    private outboxStore: OutboxStore;
+    private outbox?: MessageOutbox;
+    private consensusTransport?: ConsensusTransport;
+    private contractGateway?: ContractGateway;
+    private scheduleGateway?: ScheduleGateway;
+    private configuredRole: ContractRole | 'auto';
+    private contractRole: ContractRole = 'admin';
+    private operatorKey?: PrivateKey;
+    private mirrorNodeUrl: string;
+    private subscription?: Subscription;
 
-    constructor() {
-        this.environment = process.env as NodeJS.ProcessEnv & EnvironmentConfig;
+    constructor(options: LynxGovernanceAgentOptions = {}) {
+        this.environment = options.environment ?? process.env as NodeJS.ProcessEnv & EnvironmentConfig;
+        const dryRun = options.dryRun ?? this.environment.DRY_RUN === 'true';
+        this.executor = options.executor
+            ?? (dryRun ? new DryRunExecutor(this.environment.DRY_RUN_PLAN_FILE || 'execution-plan.json') : undefined);
+        // A shadow agent keeps its own state so it never resumes the live agent's round
+        this.stateStore = options.stateStore ?? new FileStateStore(this.environment.GOVERNANCE_STATE_FILE
+            || (this.executor?.dryRun ? 'governance-state.dry-run.json' : 'governance-state.json'));
+        this.outboxStore = options.outboxStore ?? new FileOutboxStore(this.environment.ALERT_OUTBOX_FILE
+            || (this.executor?.dryRun ? 'alert-outbox.dry-run.json' : 'alert-outbox.json'));
+        this.replayFromStart = options.replayFromStart ?? this.environment.REPLAY_VOTING_TOPIC === 'true';
+        this.roundConfig = options.roundConfig ?? {
+            quorumThreshold: Number(this.environment.QUORUM_THRESHOLD || DEFAULT_QUORUM_THRESHOLD),
+            durationMs: Number(this.environment.ROUND_DURATION_HOURS || DEFAULT_ROUND_DURATION_HOURS) * 60 * 60 * 1000,
+            tallyStrategy: TallyStrategyNameSchema.parse(this.environment.TALLY_STRATEGY || 'plurality'),
+            reconciliationPolicy: ReconciliationPolicySchema.parse(this.environment.RATIO_RECONCILIATION_POLICY || 'normalize')
+        };
+        this.state = createGovernanceState(createRound(this.roundConfig));
+        const mirrorNodeUrl = this.environment.MIRROR_NODE_URL || mirrorNodeUrlFor(this.environment.HEDERA_NETWORK);
+        this.mirrorNodeUrl = mirrorNodeUrl;
+        this.votingPowerPolicy = options.votingPowerPolicy
+            ?? (this.environment.VOTING_POWER_POLICY === 'clamp' ? 'clamp' : 'reject');
+        this.votingPowerProvider = options.votingPowerProvider ?? (this.environment.GOVERNANCE_TOKEN_ID
+            ? new MirrorNodeVotingPowerProvider(mirrorNodeUrl, this.environment.GOVERNANCE_TOKEN_ID)
+            : undefined);
+        this.voteAuthOptions = {
+            keyResolver: options.keyResolver ?? new MirrorNodeAccountKeyResolver(mirrorNodeUrl),
+            requireSignature: this.environment.REQUIRE_VOTE_SIGNATURE === 'true'
+        };
+        this.tokenRegistry = options.tokenRegistry ?? loadTokenRegistry(this.environment.TOKEN_REGISTRY_FILE);
+        this.ratioPolicy = options.ratioPolicy ?? loadRatioPolicy(this.tokenRegistry, this.environment.RATIO_POLICY_FILE);
+        const timelockHours = Number(this.environment.EXECUTION_TIMELOCK_HOURS || 0);
+        this.timelock = options.timelock !== undefined ? options.timelock : timelockHours > 0 ? {
+            delayMs: timelockHours * 60 * 60 * 1000,
+            guardians: (this.environment.GUARDIAN_ACCOUNTS || '').split(',').map(account => account.trim()).filter(Boolean),
+            controlTopicId: this.environment.GOVERNANCE_CONTROL_TOPIC || ''
+        } : null;
+        const scheduleExpiryHours = Number(this.environment.SCHEDULE_EXPIRY_HOURS || 0);
+        this.scheduledExecution = options.scheduledExecution !== undefined ? options.scheduledExecution
+            : this.environment.EXECUTION_MODE === 'scheduled' ? {
+                signers: (this.environment.SCHEDULE_SIGNERS || '').split(',').map(account => account.trim()).filter(Boolean),
+                payerAccountId: this.environment.SCHEDULE_PAYER_ACCOUNT || undefined,
+                expiryMs: scheduleExpiryHours > 0 ? scheduleExpiryHours * 60 * 60 * 1000 : undefined,
+                pollIntervalMs: Number(this.environment.SCHEDULE_POLL_SECONDS || DEFAULT_SCHEDULE_POLL_MS / 1000) * 1000
+            } : null;
+        this.consensusTransport = options.consensusTransport;
+        this.contractGateway = options.contractGateway;
+        this.scheduleGateway = options.scheduleGateway;
+        const contractRole = this.environment.CONTRACT_ROLE || 'auto';
+        this.configuredRole = options.contractRole ?? (contractRole === 'auto' ? 'auto' : ContractRoleSchema.parse(contractRole));
+        this.operatorKey = options.operatorKey;
+    }
+
+    private get offline(): boolean {
+        return Boolean(this.consensusTransport && this.contractGateway);
     }
 
     async initialize(): Promise<void> {
         console.log("🦌⚡ Initializing Lynx Governance Agent");
         console.log("=========================================");
 
-        const requiredVars = [
+        // Alerts are persisted with their topic, so both alert topics must be known up front
+        const requiredVars = this.offline ? ['HEDERA_ACCOUNT_ID', 'LYNX_CONTRACT', 'LYNX_RATIOS_FUNCTION', 'DASHBOARD_ALERT_TOPIC', 'BALANCER_ALERT_TOPIC'] : [
             'HEDERA_NETWORK',
             'HEDERA_ACCOUNT_ID',
             'HEDERA_PRIVATE_KEY',
             'AI_GATEWAY_API_KEY',
             'LYNX_CONTRACT',
+            'LYNX_RATIOS_FUNCTION',
+            'DASHBOARD_ALERT_TOPIC',
+            'BALANCER_ALERT_TOPIC',
         ];
         const missingVars = requiredVars.filter(varName => !this.environment[varName]);
         if (missingVars.length > 0) {
             throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
         }
 
-        await this.initializeGovernanceAgent();
+        if (this.timelock && (!this.timelock.controlTopicId || this.timelock.guardians.length === 0)) {
+            throw new Error('The execution timelock needs GOVERNANCE_CONTROL_TOPIC and at least one GUARDIAN_ACCOUNTS entry');
+        }
+
+        if (!this.votingPowerProvider) {
+            console.warn("⚠️  GOVERNANCE_TOKEN_ID not set - self-reported voting power will be trusted");
+        }
+
+        if (!this.environment.VOTE_RECEIPT_TOPIC) {
+            console.log("🧾 VOTE_RECEIPT_TOPIC not set - no vote receipts are published");
+        }
+
+        console.log(`🪙 Governed tokens: ${this.tokenRegistry.symbols.join(', ')}`);
+        if (this.executor?.dryRun) {
+            console.log("🧪 Dry run: contract updates, snapshots and alerts are simulated, nothing is submitted");
+        }
+
+        if (this.offline) {
+            console.log("🔌 Using injected transports, no Hedera client or LLM");
+            await this.initializeExecution();
+        } else {
+            await this.initializeGovernanceAgent();
+        }
+        await this.restoreState();
+    }
+
+    private async restoreState(): Promise<void> {
+        if (this.replayFromStart) {
+            this.replayUntil = new Date();
+            console.log(`⏪ Replay requested, rebuilding rounds from the start of the voting topic up to ${this.replayUntil.toISOString()}`);
+            await this.stateStore.save(this.state);
+            return;
+        }
+
+        const restored = await this.stateStore.load();
+        if (!restored) {
+            console.log(`🆕 No saved governance state, starting round ${this.state.round.id}`);
+            await this.stateStore.save(this.state);
+            return;
+        }
+
+        this.state = restored;
+        console.log(`♻️  Restored round ${restored.round.id} (${restored.round.status}), deadline ${restored.round.votingDeadline.toISOString()}`);
+        console.log(`🗳️  ${restored.votes.length} votes, RUNNING_VOTE_TOTAL: ${restored.totalVotingPower}/${restored.round.quorum.threshold}`);
     }
 
     private async initializeGovernanceAgent(): Promise<void> {
         try {
             this.client = Client.forTestnet();
             
-            // Handle DER format private key
-            let operatorPrivateKey: PrivateKey;
-            try {
-                // Try DER format first
-                operatorPrivateKey = PrivateKey.fromStringDer(this.environment.HEDERA_PRIVATE_KEY!);
-            } catch (derError) {
-                // Fallback to regular string format
-                console.log('DER format failed, trying regular format...');
-                operatorPrivateKey = PrivateKey.fromString(this.environment.HEDERA_PRIVATE_KEY!);
-            }
-            
+            const operatorPrivateKey = parseOperatorKey(this.environment.HEDERA_PRIVATE_KEY!);
+            this.operatorKey ??= operatorPrivateKey;
             this.client.setOperator(this.environment.HEDERA_ACCOUNT_ID!, operatorPrivateKey);
+            this.consensusTransport ??= new HederaConsensusTransport(this.client);
+            this.contractGateway ??= new HederaContractGateway(this.client);
+            this.scheduleGateway ??= new HederaScheduleGateway(this.client);
+            await this.initializeExecution();
+
+            // The LLM stack is loaded only here, so offline runs (scenarios, tests) never import it
+            const [
+                { AgentExecutor, createToolCallingAgent },
+                { AgentMode, coreConsensusPlugin, coreQueriesPlugin, HederaLangchainToolkit },
+                { ChatOpenAI },
+                { ChatPromptTemplate }
+            ] = await Promise.all([
+                import('langchain/agents'),
+                import('hedera-agent-kit'),
+                import('@langchain/openai'),
+                import('@langchain/core/prompts')
+            ]);
             this.hederaAgentToolkit = new HederaLangchainToolkit({
                 client: this.client,
                 configuration: {
@@ -90,33 +314,36 @@ export class LynxGovernanceAgent {
                 CORE RESPONSIBILITIES:
                 - Monitor HCS-2 voting topic for incoming governance votes
                 - Track total voting power and maintain running count
-                - Trigger vote tallying when quorum threshold (${QUORUM_THRESHOLD}) is reached
+                - Trigger vote tallying when quorum threshold (${this.roundConfig.quorumThreshold}) is reached
                 - Update smart contract ratios based on governance results
+                - Governed tokens, in contract parameter order: ${this.tokenRegistry.symbols.join(', ')}
                 - Send real-time alerts and notifications throughout the process
 
                                  VOTING PROCESS:
-                 1. Use parse_hcs2_vote tool to extract vote data from raw HCS-2 message
-                 2. Add parsed vote to COLLECTED_VOTES array and votingPower to RUNNING_VOTE_TOTAL
-                 3. Send dashboard alert for each vote received
-                 4. When RUNNING_VOTE_TOTAL >= ${QUORUM_THRESHOLD}:
-                 - Send "Quorum Reached" dashboard alert
-                 - Use calculate_winning_ratios tool with COLLECTED_VOTES array to determine winning ratios
-                 - Use update_lynx_contract tool with winning ratios
-                 - Send "Contract Updated" dashboard alert if successful
-                 - Create token ratio snapshot and send to snapshot topic
-                 - Send balancer alert about ratio updates
+                 1. Votes are parsed and validated by the agent runtime (never by you)
+                 2. The runtime adds each vote to COLLECTED_VOTES and its votingPower to RUNNING_VOTE_TOTAL
+                 3. The runtime sends a dashboard alert for each vote received
+                 4. When RUNNING_VOTE_TOTAL >= ${this.roundConfig.quorumThreshold} the runtime:
+                 - Sends "Quorum Reached" dashboard alert
+                 - Tallies COLLECTED_VOTES with the calculate_winning_ratios logic
+                 - Checks the winners against the ratio guardrails, clamping or blocking them
+                 - Holds the result for the execution timelock, if configured; a guardian veto cancels it
+                 - Reads the contract ratios and updates them only if they differ from the winners,
+                   directly or through a scheduled transaction the required signers approve
+                 - Sends "Contract Updated" dashboard alert once the ratios read back match
+                 - Creates the token ratio snapshot and sends it to the snapshot topic
+                 - Sends balancer alert about ratio updates
 
                  MEMORY TRACKING:
-                 - Maintain RUNNING_VOTE_TOTAL: number (sum of all votingPower)
-                 - Maintain COLLECTED_VOTES: MultiRatioVote[] (array of parsed vote objects)
-                 - Reset both counters after successful governance round completion
+                 - RUNNING_VOTE_TOTAL and COLLECTED_VOTES are maintained by the runtime
+                 - Never invent, alter or re-count vote data or voting power
 
                  AVAILABLE TOOLS:
                  - parse_hcs2_vote: Extract and validate vote data from raw HCS-2 topic messages
                  - calculate_winning_ratios: Process collected votes when quorum reached (takes MultiRatioVote[])
                  - update_lynx_contract: Update contract with winning token ratios
                  - create_token_snapshot: Create token ratio snapshot with proper hash and HCS-2 format
-                 - submit_topic_message_tool: Send alerts to various topics
+                 - submit_topic_message_tool: Submit topic messages (alerts are sent by the runtime, not by you)
 
                 Be precise, efficient, and provide clear status updates throughout the governance process.`],
                                 ["user", "{input}"],
@@ -124,11 +351,9 @@ export class LynxGovernanceAgent {
             ]);
 
             const hederaTools = this.hederaAgentToolkit.getTools();
-            const calculateWinningRatiosTool = new CalculateWinningRatiosTool();
-            const updateContractTool = new UpdateLynxContractTool(this.client);
+            const calculateWinningRatiosTool = new CalculateWinningRatiosTool(this.tokenRegistry);
             const parseHCS2VoteTool = new ParseHCS2VoteTool();
-            const createSnapshotTool = new CreateTokenSnapshotTool(this.client);
-            const allTools = [...hederaTools, calculateWinningRatiosTool, updateContractTool, parseHCS2VoteTool, createSnapshotTool];
+            const allTools = [...hederaTools, calculateWinningRatiosTool, this.updateContractTool!, parseHCS2VoteTool, this.createSnapshotTool!];
 
             const agent = await createToolCallingAgent({
                 llm,
@@ -150,21 +375,129 @@ export class LynxGovernanceAgent {
         }
     }
 
+    private async initializeExecution(): Promise<void> {
+        if (!this.operatorKey && this.environment.HEDERA_PRIVATE_KEY) {
+            this.operatorKey = parseOperatorKey(this.environment.HEDERA_PRIVATE_KEY);
+        }
+        if (!this.operatorKey) {
+            throw new Error('Snapshots are signed with the operator key; set HEDERA_PRIVATE_KEY');
+        }
+        if (this.scheduledExecution) {
+            await this.checkScheduleSigners(this.scheduledExecution, this.operatorKey.publicKey);
+        }
+        this.contractRole = await this.detectContractRole();
+        const updateFunction = updateFunctionFor(
+            this.contractRole,
+            this.environment.LYNX_GOVERNANCE_UPDATE_FUNCTION || DEFAULT_GOVERNANCE_UPDATE_FUNCTION
+        );
+        console.log(`🔑 Contract role: ${this.contractRole} (updates through ${updateFunction})`);
+        if (this.scheduledExecution && !this.scheduleGateway && !this.executor?.dryRun) {
+            throw new Error('Scheduled execution needs a schedule gateway');
+        }
+        this.executor ??= new TransportExecutor(this.contractGateway!, this.consensusTransport!, this.scheduleGateway);
+        this.outbox = new MessageOutbox(this.outboxStore, this.executor, {
+            onDeadLetter: message => this.reportDeadLetter(message),
+            onDelivered: message => this.reportDelivered(message)
+        });
+        this.updateContractTool = new UpdateLynxContractTool(this.executor, this.tokenRegistry, this.environment.LYNX_CONTRACT!, this.contractRole, updateFunction);
+        this.createSnapshotTool = new CreateTokenSnapshotTool(this.outbox, this.tokenRegistry, this.environment.TOKEN_RATIO_SNAPSHOT_TOPIC!, this.operatorKey);
+    }
+
+    /**
+     * The operator signs the ScheduleCreate, so a schedule paid by the operator, or one only
+     * the operator's key has to sign, executes on that one signature. Refuse to start unless
+     * the schedule is paid by another account and at least one signer holds another key.
+     */
+    private async checkScheduleSigners(config: ScheduledExecutionConfig, operatorPublicKey: PublicKey): Promise<void> {
+        const operatorAccountId = this.environment.HEDERA_ACCOUNT_ID!;
+        if (!config.payerAccountId || config.payerAccountId === operatorAccountId) {
+            throw new Error(`Scheduled execution needs SCHEDULE_PAYER_ACCOUNT set to a multi-signature account other than the operator ${operatorAccountId}`);
+        }
+        const isOperatorKey = async (accountId: string): Promise<boolean> => {
+            const publicKey = await this.voteAuthOptions.keyResolver?.getPublicKey(accountId);
+            return publicKey?.toStringRaw() === operatorPublicKey.toStringRaw();
+        };
+        if (await isOperatorKey(config.payerAccountId)) {
+            throw new Error(`SCHEDULE_PAYER_ACCOUNT ${config.payerAccountId} is controlled by the operator key alone`);
+        }
+        const otherSigners: string[] = [];
+        for (const signer of config.signers) {
+            if (signer !== operatorAccountId && !(await isOperatorKey(signer))) {
+                otherSigners.push(signer);
+            }
+        }
+        if (otherSigners.length === 0) {
+            throw new Error('Scheduled execution needs SCHEDULE_SIGNERS holding keys other than the operator\'s');
+        }
+    }
+
+    /**
+     * Work out which role the executing account holds on the contract. Unless CONTRACT_ROLE
+     * names one, the agent refuses to start when it holds neither.
+     */
+    private async detectContractRole(): Promise<ContractRole> {
+        const contractId = this.environment.LYNX_CONTRACT!;
+        // A scheduled update is sent from the schedule's payer, not the operator
+        const accountId = this.scheduledExecution?.payerAccountId ?? this.environment.HEDERA_ACCOUNT_ID!;
+
+        let holders: RoleHolders;
+        try {
+            holders = await readRoleHolders(this.contractGateway!, contractId);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            if (this.configuredRole === 'auto') {
+                throw new Error(`Contract roles could not be read from ${contractId} (${reason}); set CONTRACT_ROLE to choose one`);
+            }
+            console.warn(`⚠️  Contract roles could not be read (${reason}), using CONTRACT_ROLE=${this.configuredRole}`);
+            return this.configuredRole;
+        }
+        console.log(`🏛️  ${contractId} GOVERNANCE: ${formatAddress(holders.governance)}, ADMIN: ${formatAddress(holders.admin)}`);
+
+        const addresses = [accountEvmAddress(accountId)];
+        if (!this.offline) {
+            try {
+                const alias = await fetchEvmAlias(this.mirrorNodeUrl, accountId);
+                if (alias) addresses.push(alias);
+            } catch (error) {
+                console.warn(`⚠️  EVM alias of ${accountId} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        const detected = roleFor(holders, addresses);
+
+        if (this.configuredRole === 'auto') {
+            if (!detected) {
+                throw new Error(`${accountId} holds neither the GOVERNANCE nor the ADMIN role on ${contractId}; set CONTRACT_ROLE to use one anyway`);
+            }
+            return detected;
+        }
+        if (detected !== this.configuredRole) {
+            console.warn(`⚠️  ${accountId} ${detected ? `holds the ${detected} role` : 'holds neither role'}, using CONTRACT_ROLE=${this.configuredRole}`);
+        }
+        return this.configuredRole;
+    }
+
     async start(): Promise<void> {
         console.log("🚀 Starting Lynx Governance Agent");
         console.log("=================================");
         this.isRunning = true;
+        this.replayCatchUpUntil = this.replayUntil ? Date.now() + REPLAY_CATCH_UP_MS : 0;
 
-        if (!this.isRunning) {
-            this.isRunning = true;
-
-            process.on('SIGINT', async () => {
-                console.log('\n🛑 Received SIGINT. Shutting down gracefully...');
-                await this.stop();
-                process.exit(0);
-            });
-        }
+        process.once('SIGINT', this.handleSigint);
         try {
+            // Deliver alerts left unconfirmed by the previous run before sending new ones
+            await this.outbox!.start();
+            // Subscribe before resuming so vetoes sent while the agent was down are seen
+            if (this.timelock) {
+                this.startControlListener(this.timelock);
+            }
+            if (this.state.round.status !== 'OPEN') {
+                console.log(`♻️  Resuming interrupted governance flow from status ${this.state.round.status}`);
+                await this.enqueue(() => this.executeGovernanceFlow());
+            }
+            await this.enqueue(() => this.closeRoundIfExpired(new Date()));
+            this.scheduleDeadlineCheck();
+            this.scheduleTimelockCheck();
+            this.scheduleSignatureCheck();
             await this.startTopicListener();
         } catch (error) {
             console.error("❌ Error starting topic listener:", error);
@@ -175,56 +508,54 @@ export class LynxGovernanceAgent {
     async stop(): Promise<void> {
         console.log("🛑 Stopping Lynx Governance Agent...");
         this.isRunning = false;
+        process.off('SIGINT', this.handleSigint);
+        clearTimeout(this.deadlineTimer);
+        clearTimeout(this.timelockTimer);
+        clearTimeout(this.scheduleTimer);
+        this.subscription?.unsubscribe();
+        this.controlSubscription?.unsubscribe();
+        this.outbox?.stop();
         console.log("✅ Lynx Governance Agent stopped");
     }
 
+    private handleSigint = async (): Promise<void> => {
+        console.log('\n🛑 Received SIGINT. Shutting down gracefully...');
+        await this.stop();
+        process.exit(0);
+    };
+
     private async startTopicListener(): Promise<void> {
         console.log("🔍 Starting topic listener for voting topic:", this.environment.CURRENT_ROUND_VOTING_TOPIC);
-        if (!this.agentExecutor) {
-            throw new Error("Agent executor not initialized");
+        if (!this.consensusTransport) {
+            throw new Error("Consensus transport not initialized");
         }
 
         const topicID = this.environment.CURRENT_ROUND_VOTING_TOPIC!;
+        const startTime = this.subscriptionStartTime();
+        console.log(`⏱️  Subscribing from ${startTime.toISOString()} (last sequence: ${this.state.lastSequenceNumber ?? 'none'})`);
+        this.subscription?.unsubscribe();
+        const generation = ++this.subscriptionGeneration;
         try {
-            new TopicMessageQuery()
-                .setTopicId(topicID)
-                .setStartTime(new Date(Date.now()))
-                .subscribe(
-                    this.client!,
-                    (message, error) => {
-                        if (error) {
-                          console.error("❌ Topic subscription error:", error);
-                          return;
-                        }
-                    },
-                    async (message) => {
-                        if (!this.isRunning || !message) return;
-                        try {
-                            console.log("🚨 New topic message received!");
-                            
-                            // Parse and display vote details nicely
-                            const rawMessage = Buffer.from(message.contents).toString("utf8");
-                            try {
-                                const hcs2Data = JSON.parse(rawMessage);
-                                if (hcs2Data.p === 'hcs-2' && hcs2Data.metadata) {
-                                    const voteData = JSON.parse(hcs2Data.metadata);
-                                    console.log(`👤 Voter: ${voteData.voterAccountId}`);
-                                    console.log(`⚡ Power: ${voteData.votingPower}`);
-                                    console.log(`📊 Ratios: ${voteData.ratioChanges.map(r => `${r.token}(${r.newRatio}%)`).join(', ')}`);
-                                    console.log(`💬 Reason: ${voteData.reason || 'No reason provided'}`);
-                                } else {
-                                    console.log(`📨 Raw: ${rawMessage.substring(0, 100)}...`);
-                                }
-                            } catch (parseError) {
-                                console.log(`📨 Raw: ${rawMessage.substring(0, 100)}...`);
+            this.subscription = this.consensusTransport.subscribe(
+                topicID,
+                startTime,
+                async (message) => {
+                    if (!this.isRunning) return;
+                    try {
+                        console.log("🚨 New topic message received!");
+                        console.log(`🕒 Time: ${message.consensusTimestamp.toLocaleTimeString()}`);
+                        await this.enqueue(async () => {
+                            if (generation === this.subscriptionGeneration) {
+                                await this.processTopicMessage(message);
                             }
-                            
-                            console.log(`🕒 Time: ${new Date(message.consensusTimestamp.toDate()).toLocaleTimeString()}`);
-                            await this.processTopicMessage(message);
-                          } catch (error) {
-                            console.error("❌ Error processing topic message:", error);
-                          }
+                        });
+                    } catch (error) {
+                        console.error("❌ Error processing topic message:", error);
                     }
+                },
+                (error) => {
+                    console.error("❌ Topic subscription error:", error);
+                }
             );
         } catch (error) {
             console.error("❌ Error starting topic listener:", error);
@@ -232,32 +563,156 @@ export class LynxGovernanceAgent {
         }
     }
 
-    private async processTopicMessage(message: TopicMessage): Promise<void> {
-        if (!this.agentExecutor) {
-            throw new Error("Agent executor not initialized");
+    /**
+     * Run state-mutating work one task at a time so concurrent topic callbacks
+     * never interleave reads and writes of the persisted round state.
+     */
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        const run = this.processingQueue.then(task);
+        this.processingQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Resume from the last checkpointed consensus timestamp so votes submitted while the
+     * agent was down are still counted. Millisecond precision means the checkpointed
+     * message itself may be delivered again; sequence number dedupe drops it.
+     */
+    private subscriptionStartTime(): Date {
+        return this.state.lastConsensusTimestamp ?? (this.replayFromStart ? new Date(0) : this.state.round.startTime);
+    }
+
+    private async processTopicMessage(message: ConsensusMessage): Promise<void> {
+        // Messages still queued when the agent stops are left for the resumed subscription
+        if (!this.isRunning) return;
+        const sequenceNumber = message.sequenceNumber;
+        if (this.state.lastSequenceNumber !== undefined && sequenceNumber <= this.state.lastSequenceNumber) {
+            console.log(`⏭️  Skipping already processed message #${sequenceNumber}`);
+            return;
         }
 
         try {
-            // Step 1: Parse the vote (simple LLM task)
+            // A replay opens its first round at the first message, not at the time the agent started
+            if (this.isReplayed(message.consensusTimestamp) && this.state.lastSequenceNumber === undefined) {
+                this.state = createGovernanceState(createRound(this.roundConfig, message.consensusTimestamp));
+                await this.stateStore.save(this.state);
+                console.log(`⏪ Replaying from round ${this.state.round.id}`);
+                if (this.isRunning) {
+                    this.scheduleDeadlineCheck();
+                }
+            }
+
+            // Votes can't count while a decided result awaits execution, or while a flow interrupted
+            // before the next round opened (e.g. by an error) is retried. They are held, and the
+            // message's consensus time may release the timelock; once the next round opens, it
+            // counts them in order
+            if (this.state.round.status !== 'OPEN') {
+                await this.holdMessage(sequenceNumber);
+                await this.executeGovernanceFlow(message.consensusTimestamp);
+                return;
+            }
+
+            // Step 1: Parse and validate the vote deterministically (no LLM on the voting path)
             const rawMessageContent = Buffer.from(message.contents).toString("utf8");
-            const vote = await this.parseVoteMessage(rawMessageContent);
-            
-            if (!vote) {
-                console.log("❌ Failed to parse vote message");
+            const parsed = parseHCS2Vote(rawMessageContent);
+            const checkpoint: MessageCheckpoint = {
+                lastSequenceNumber: sequenceNumber,
+                lastConsensusTimestamp: message.consensusTimestamp
+            };
+
+            // Messages after the deadline belong to the next round
+            await this.closeRoundIfExpired(checkpoint.lastConsensusTimestamp);
+
+            if (!parsed.success) {
+                await this.rejectVote(parsed.rejection, checkpoint);
+                return;
+            }
+
+            // Governance rules: voting topic, registry tokens summing to 100% within bounds, round window
+            const ruleRejection = validateVote(parsed.vote, parsed.hcs2Info, {
+                registry: this.tokenRegistry,
+                round: this.state.round,
+                votingTopicId: this.environment.CURRENT_ROUND_VOTING_TOPIC,
+                consensusTimestamp: checkpoint.lastConsensusTimestamp,
+                held: sequenceNumber <= (this.state.heldThroughSequenceNumber ?? -1)
+            });
+            if (ruleRejection) {
+                await this.rejectVote(ruleRejection, checkpoint, parsed.vote.voterAccountId);
                 return;
             }
+
+            // Step 2: The voter must be the account that submitted the message
+            const authRejection = await authenticateVote(parsed.vote, message.payerAccountId, this.voteAuthOptions);
+            if (authRejection) {
+                await this.rejectVote(authRejection, checkpoint, parsed.vote.voterAccountId);
+                return;
+            }
+
+            // Step 3: Never trust self-reported voting power; balances count as of the round start
+            let vote = parsed.vote;
+            let claimedVotingPower: number | undefined;
+            if (this.votingPowerProvider) {
+                const check = await this.verifyVotingPower(vote, this.votingPowerProvider);
+                if (!check.accepted) {
+                    await this.rejectVote(check.rejection, checkpoint, vote.voterAccountId);
+                    return;
+                }
+                if (check.clamped) {
+                    console.log(`✂️  Clamped claimed power ${vote.votingPower} to verified ${check.verifiedPower}`);
+                    claimedVotingPower = vote.votingPower;
+                }
+                vote = check.vote;
+            }
+
+            console.log(`👤 Voter: ${vote.voterAccountId}`);
+            console.log(`⚡ Power: ${vote.votingPower}`);
+            console.log(`📊 Ratios: ${vote.ratioChanges.map(r => `${r.token}(${r.newRatio}%)`).join(', ')}`);
+            console.log(`💬 Reason: ${vote.reason || 'No reason provided'}`);
             
-            // Step 2: JavaScript handles state management
-            this.addVoteToState(vote);
+            // Step 4: JavaScript handles state management
+            const superseded = this.addVoteToState({
+                vote,
+                sequenceNumber: checkpoint.lastSequenceNumber,
+                consensusTimestamp: checkpoint.lastConsensusTimestamp,
+                claimedVotingPower
+            });
+            const { statistics } = this.state;
+            await this.updateState({
+                ...checkpoint,
+                statistics: {
+                    ...statistics,
+                    messagesProcessed: statistics.messagesProcessed + 1,
+                    votesAccepted: statistics.votesAccepted + 1,
+                    votesSuperseded: statistics.votesSuperseded + (superseded ? 1 : 0)
+                }
+            });
             
-            console.log(`🗳️  Vote processed. RUNNING_VOTE_TOTAL: ${this.currentVotingPower}/${QUORUM_THRESHOLD}`);
+            console.log(`🗳️  Vote processed. RUNNING_VOTE_TOTAL: ${this.state.totalVotingPower}/${this.state.round.quorum.threshold}`);
+            await this.sendVoteReceipt({
+                ...this.receiptBase(checkpoint, vote.voterAccountId),
+                status: superseded ? 'SUPERSEDED_PREVIOUS' : 'ACCEPTED',
+                supersededSequenceNumber: superseded?.sequenceNumber,
+                effectivePower: vote.votingPower,
+                claimedPower: claimedVotingPower
+            });
             
-            // Step 3: JavaScript decides the flow
-            if (this.currentVotingPower >= QUORUM_THRESHOLD) {
+            // Step 5: JavaScript decides the flow
+            if (hasReachedQuorum(this.state.round, this.state.totalVotingPower) && this.isReplayed(checkpoint.lastConsensusTimestamp)) {
+                // Decided before the replay started; never executed a second time
+                await this.closeReplayedRound(checkpoint.lastConsensusTimestamp);
+            } else if (hasReachedQuorum(this.state.round, this.state.totalVotingPower)) {
                 console.log("🏛️ Quorum reached! Processing governance results...");
+                await this.updateRoundStatus('QUORUM_REACHED');
                 await this.executeGovernanceFlow();
             } else {
-                await this.sendDashboardAlert("Vote Confirmed: The vote has been confirmed.");
+                await this.sendDashboardAlert(createAlert('VoteReceived', this.state.round.id, {
+                    sequenceNumber: checkpoint.lastSequenceNumber,
+                    voterAccountId: vote.voterAccountId,
+                    votingPower: vote.votingPower,
+                    totalVotingPower: this.state.totalVotingPower,
+                    quorumThreshold: this.state.round.quorum.threshold,
+                    replacedSequenceNumber: superseded?.sequenceNumber
+                }));
             }
             
         } catch (error) {
@@ -265,228 +720,813 @@ export class LynxGovernanceAgent {
         }
     }
 
-    private async parseVoteMessage(rawMessage: string): Promise<any> {
-        try {
-            const result = await this.agentExecutor!.invoke({
-                input: `Use the parse_hcs2_vote tool to parse this HCS-2 message:
-
-${rawMessage}
-
-After using the tool, end your response with exactly:
-VOTE_DATA: {the vote object from the tool result}
-
-Example format:
-VOTE_DATA: {"type":"MULTI_RATIO_VOTE","voterAccountId":"0.0.123","votingPower":100,"ratioChanges":[...],"timestamp":"2025-08-03T16:12:53.534Z","reason":"..."}`
-            });
-            
-            // Extract vote data from the result
-            const vote = this.extractVoteFromResult(result.output);
-            return vote;
-        } catch (error) {
-            console.error("❌ Error parsing vote:", error);
-            return null;
+    /**
+     * Verify the vote's power, retrying with backoff while the balance can't be read. The
+     * message is not checkpointed meanwhile and the ones behind it wait, so an unavailable
+     * mirror node never rejects a vote. Gives up (throws) only once the agent stops.
+     */
+    private async verifyVotingPower(vote: MultiRatioVote, provider: VotingPowerProvider): Promise<VotingPowerCheck> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await verifyVotingPower(vote, provider, this.votingPowerPolicy, this.state.round.startTime);
+            } catch (error) {
+                if (!this.isRunning) {
+                    throw error;
+                }
+                const delay = Math.min(VOTING_POWER_RETRY_BASE_MS * 2 ** (attempt - 1), VOTING_POWER_RETRY_MAX_MS);
+                console.warn(`⚠️  Voting power of ${vote.voterAccountId} could not be read (attempt ${attempt}), retrying in ${delay / 1000}s: ${error instanceof Error ? error.message : String(error)}`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
         }
     }
 
-    private extractVoteFromResult(output: string): any {
-        try {
-            // Look for the VOTE_DATA: prefix that we asked the LLM to provide
-            const voteDataMatch = output.match(/VOTE_DATA:\s*(\{.*\})/s);
-            if (voteDataMatch) {
-                const voteData = JSON.parse(voteDataMatch[1]);
-                return voteData;
+    private async rejectVote(rejection: VoteRejection, checkpoint: MessageCheckpoint, voterAccountId?: string): Promise<void> {
+        console.log(`❌ Vote rejected [${rejection.code}]: ${rejection.reason}`);
+        const rejected: RejectedVote = {
+            sequenceNumber: checkpoint.lastSequenceNumber,
+            consensusTimestamp: checkpoint.lastConsensusTimestamp,
+            voterAccountId,
+            rejection
+        };
+        const { statistics } = this.state;
+        await this.updateState({
+            ...checkpoint,
+            rejectedVotes: [...this.state.rejectedVotes, rejected],
+            statistics: {
+                ...statistics,
+                messagesProcessed: statistics.messagesProcessed + 1,
+                rejections: { ...statistics.rejections, [rejection.code]: (statistics.rejections[rejection.code] ?? 0) + 1 }
             }
-            
-            // Fallback: try to extract JSON from tool output if VOTE_DATA format wasn't used
-            const jsonMatch = output.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const result = JSON.parse(jsonMatch[0]);
-                if (result.success && result.vote) {
-                    return result.vote;
-                } else {
-                    console.error("❌ Parse tool failed:", result.error || 'Unknown error');
-                    return null;
-                }
-            }
-        } catch (error) {
-            console.error("❌ Error extracting vote from result:", error);
-        }
-        return null;
+        });
+        await this.sendDashboardAlert(createAlert('VoteRejected', this.state.round.id, {
+            sequenceNumber: rejected.sequenceNumber,
+            code: rejection.code,
+            reason: rejection.reason,
+            voterAccountId
+        }));
+        await this.sendVoteReceipt({
+            ...this.receiptBase(checkpoint, voterAccountId),
+            status: 'REJECTED',
+            rejection: { code: rejection.code, reason: rejection.reason },
+            effectivePower: 0
+        });
     }
 
-    private addVoteToState(vote: any): void {
+    // Returns the voter's earlier vote when this one replaces it
+    private addVoteToState(recorded: RecordedVote): RecordedVote | undefined {
         // Handle vote deduplication (latest vote per voter wins)
-        const existingIndex = this.collectedVotes.findIndex(v => v.voterAccountId === vote.voterAccountId);
+        const votes = [...this.state.votes];
+        let totalVotingPower = this.state.totalVotingPower;
+        const existingIndex = votes.findIndex(v => v.vote.voterAccountId === recorded.vote.voterAccountId);
         if (existingIndex >= 0) {
             // Replace existing vote from same voter
-            const oldVote = this.collectedVotes[existingIndex];
-            this.currentVotingPower -= oldVote.votingPower;
-            this.collectedVotes[existingIndex] = vote;
+            totalVotingPower -= votes[existingIndex].vote.votingPower;
+            votes[existingIndex] = recorded;
         } else {
             // New voter
-            this.collectedVotes.push(vote);
+            votes.push(recorded);
         }
-        this.currentVotingPower += vote.votingPower;
+        totalVotingPower += recorded.vote.votingPower;
+        const superseded = existingIndex >= 0 ? this.state.votes[existingIndex] : undefined;
+        this.state = { ...this.state, votes, totalVotingPower };
+        return superseded;
     }
 
-    private async executeGovernanceFlow(): Promise<void> {
-        console.log("🔄 Step 1: Sending quorum alert...");
-        await this.sendDashboardAlert("Quorum Reached: Governance voting threshold has been met. Processing results...");
-        
-        console.log("🔄 Step 2: Calculating winning ratios...");
-        const ratios = await this.calculateWinningRatios();
-        
-        if (ratios) {
-            console.log("🔄 Step 3: Updating contract...");
-            await this.updateContract(ratios);
-            
-            console.log("🔄 Step 4: Creating snapshot...");
-            await this.createSnapshot(ratios);
-            
-            console.log("🔄 Step 5: Sending balancer alert...");
-            await this.sendBalancerAlert();
-            
-            // Reset state for next round
-            this.resetGovernanceState();
-        }
+    private async updateState(changes: Partial<GovernanceState>): Promise<void> {
+        this.state = { ...this.state, ...changes };
+        await this.stateStore.save(this.state);
     }
 
-    private async calculateWinningRatios(): Promise<any> {
-        try {
-            const result = await this.agentExecutor!.invoke({
-                input: `Analyze these collected votes and determine the winning ratios for each token.
+    private async updateRoundStatus(status: RoundStatus, failureReason?: string, closedAt?: Date): Promise<void> {
+        const next = { ...this.state.round, status };
+        const round = isFinal(next) ? closeRound(this.state.round, status, failureReason, closedAt) : next;
+        await this.updateState({ round });
+    }
 
-Collected Votes (${this.collectedVotes.length} votes, ${this.currentVotingPower} total power):
-${JSON.stringify(this.collectedVotes, null, 2)}
+    // Held messages are left unchecked so the subscription delivers them again to the next round
+    private async holdMessage(sequenceNumber: number): Promise<void> {
+        console.log(`⏳ Round ${this.state.round.id} is ${this.state.round.status}; message #${sequenceNumber} held for the next round`);
+        await this.updateState({ heldThroughSequenceNumber: sequenceNumber });
+    }
 
-Rules:
-- Latest vote per voter wins (handle any duplicates by timestamp)
-- For each token, find the ratio that has the most voting power
-- Return the winning ratios in this exact format:
+    private isReplayed(at: Date): boolean {
+        return this.replayUntil !== undefined && at.getTime() < this.replayUntil.getTime();
+    }
 
-WINNING_RATIOS: {"hbarRatio":X,"wbtcRatio":Y,"sauceRatio":Z,"usdcRatio":A,"jamRatio":B,"headstartRatio":C}
+    /**
+     * Close the open round once its voting deadline has passed without quorum,
+     * publish the failed outcome and open the next round. A replayed round closes at its
+     * deadline and the next one opens there, as the deadline timer would have done.
+     */
+    private async closeRoundIfExpired(at: Date): Promise<void> {
+        while (this.state.round.status === 'OPEN' && isPastDeadline(this.state.round, at)) {
+            const round = this.state.round;
+            const replayed = this.isReplayed(round.votingDeadline);
+            const reason = `Voting deadline passed with ${this.state.totalVotingPower}/${round.quorum.threshold} voting power`;
+            console.log(`⌛ Round ${round.id} expired: ${reason}`);
+            await this.updateRoundStatus('EXPIRED', reason, replayed ? round.votingDeadline : undefined);
+            await this.sendDashboardAlert(createAlert('RoundExpired', round.id, {
+                votingDeadline: round.votingDeadline,
+                totalVotingPower: this.state.totalVotingPower,
+                quorumThreshold: round.quorum.threshold,
+                rejections: this.state.statistics.rejections
+            }));
+            if (!replayed) {
+                await this.startNextRound();
+                return;
+            }
+            await this.startNextRound(round.votingDeadline);
+        }
+    }
 
-Where X,Y,Z,A,B,C are the winning ratio numbers for each token.`
-            });
-            
-            return this.extractRatiosFromResult(result.output);
+    /**
+     * A round that reached quorum before the replay started was decided back then. Its tally
+     * is rebuilt for the record, but it is never executed again.
+     */
+    private async closeReplayedRound(at: Date): Promise<void> {
+        console.log(`⏪ Round ${this.state.round.id} reached quorum at ${at.toISOString()}, before the replay; not executed again`);
+        try {
+            await this.updateState(this.calculateWinningRatios());
         } catch (error) {
-            console.error("❌ Error calculating winning ratios:", error);
-            return null;
+            console.warn(`⚠️  Replayed round ${this.state.round.id} could not be tallied: ${error instanceof Error ? error.message : String(error)}`);
         }
+        await this.updateRoundStatus('REPLAYED', undefined, at);
+        await this.startNextRound(at);
     }
 
-    private extractRatiosFromResult(output: string): any {
-        try {
-            // Look for the WINNING_RATIOS: prefix that we asked the LLM to provide
-            const winningRatiosMatch = output.match(/WINNING_RATIOS:\s*(\{.*\})/s);
-            if (winningRatiosMatch) {
-                const ratiosData = JSON.parse(winningRatiosMatch[1]);
-                return ratiosData;
+    private scheduleDeadlineCheck(): void {
+        clearTimeout(this.deadlineTimer);
+        // History still being replayed closes its own rounds; wait for it before closing one by the clock
+        const dueAt = Math.max(this.state.round.votingDeadline.getTime(), this.replayCatchUpUntil);
+        this.deadlineTimer = setTimeoutAt(dueAt, () => {
+            if (!this.isRunning) return;
+            this.enqueue(() => this.closeRoundIfExpired(new Date()))
+                .catch(error => console.error("❌ Error closing expired round:", error))
+                .finally(() => this.scheduleDeadlineCheck());
+        });
+    }
+
+    /**
+     * Drive the round from its current status to completion. Each completed step is
+     * persisted, so after a restart the flow picks up where it left off.
+     */
+    private async executeGovernanceFlow(at: Date = new Date()): Promise<void> {
+        if (this.state.round.status === 'QUORUM_REACHED') {
+            console.log("🔄 Step 1: Sending quorum alert...");
+            await this.sendDashboardAlert(createAlert('QuorumReached', this.state.round.id, {
+                totalVotingPower: this.state.totalVotingPower,
+                quorumThreshold: this.state.round.quorum.threshold,
+                voterCount: this.state.votes.length,
+                rejections: this.state.statistics.rejections
+            }));
+
+            console.log("🔄 Step 2: Calculating winning ratios...");
+            let tally: Pick<GovernanceState, 'tallyResult' | 'winningRatios'>;
+            try {
+                tally = this.calculateWinningRatios();
+            } catch (error) {
+                console.error("❌ Error calculating winning ratios:", error);
+                await this.failRound(`Winning ratios could not be calculated: ${error instanceof Error ? error.message : String(error)}`);
+                return;
             }
-            
-            // Fallback: try to extract ratios from any JSON in the output
-            const ratioMatch = output.match(/\{[\s\S]*?\}/);
-            if (ratioMatch) {
-                const parsed = JSON.parse(ratioMatch[0]);
-                // Check if it looks like ratios (has the expected keys)
-                if (parsed.hbarRatio !== undefined) {
-                    return parsed;
+            await this.updateState(tally);
+
+            const reconciliation = tally.tallyResult!.reconciliation!;
+            if (reconciliation.adjusted) {
+                await this.sendDashboardAlert(createAlert('RatiosReconciled', this.state.round.id, {
+                    policy: reconciliation.policy,
+                    originalTotal: reconciliation.originalTotal,
+                    ratios: tally.winningRatios!
+                }));
+            }
+            await this.updateRoundStatus('TALLIED');
+        }
+
+        if (this.state.round.status === 'TALLIED' && !this.state.policyOutcome) {
+            console.log("🔄 Step 3: Applying ratio guardrails...");
+            const policyOutcome = await this.checkRatioPolicy(this.state.winningRatios!);
+            if (!policyOutcome) {
+                return;
+            }
+            // Persisted so a resumed flow executes the same ratios even after the contract changed
+            await this.updateState({ policyOutcome });
+            if (policyOutcome.action === 'blocked') {
+                await this.failRound(`Ratios blocked by guardrails: ${policyOutcome.reason}`);
+                return;
+            }
+        }
+
+        const ratios = this.state.policyOutcome?.ratios ?? this.state.winningRatios!;
+
+        if (this.state.round.status === 'TALLIED' && this.timelock) {
+            console.log("🔄 Step 4: Starting execution timelock...");
+            await this.startTimelock(ratios, this.timelock);
+            return;
+        }
+
+        if (this.state.round.status === 'TIMELOCKED') {
+            if (!this.isTimelockReleased(at)) {
+                return;
+            }
+            console.log(`⏰ Timelock for round ${this.state.round.id} elapsed without a veto`);
+        }
+
+        if (this.state.round.status === 'TALLIED' || AWAITING_EXECUTION.includes(this.state.round.status)) {
+            let outcome: ContractUpdateOutcome;
+            if (this.state.round.status === 'SCHEDULED') {
+                outcome = await this.checkScheduledUpdate(at);
+            } else {
+                console.log("🔄 Step 5: Updating contract...");
+                outcome = await this.updateContract(ratios);
+            }
+            if (outcome.status === 'failed') {
+                await this.failRound(outcome.reason);
+                return;
+            }
+            if (outcome.status === 'scheduled') {
+                if (this.state.round.status !== 'SCHEDULED') {
+                    await this.updateRoundStatus('SCHEDULED');
                 }
+                this.scheduleSignatureCheck();
+                return;
             }
-        } catch (error) {
-            console.error("❌ Error extracting ratios:", error);
+            await this.updateState(outcome.status === 'updated'
+                ? { contractTransactionId: outcome.transactionId }
+                : { contractUnchanged: true });
+            await this.updateRoundStatus('EXECUTED');
+        }
+
+        if (this.state.round.status === 'EXECUTED') {
+            if (!this.state.snapshotId) {
+                console.log("🔄 Step 6: Creating snapshot...");
+                const snapshotId = await this.createSnapshot(ratios);
+                // A snapshot that could not be built doesn't undo the executed round; once
+                // queued, the outbox delivers it
+                await this.updateState({ snapshotId: snapshotId ?? 'unpublished' });
+            }
+
+            if (!this.state.contractUnchanged) {
+                console.log("🔄 Step 7: Sending balancer alert...");
+                await this.sendBalancerAlert();
+            }
+
+            await this.startNextRound();
+            return;
+        }
+
+        // A round closed without execution whose successor never opened (e.g. after a restart)
+        if (isFinal(this.state.round)) {
+            await this.startNextRound();
         }
-        return null;
     }
 
-    private async updateContract(ratios: any): Promise<void> {
-        try {
-            await this.agentExecutor!.invoke({
-                input: `Use the update_lynx_contract tool to update the contract with these winning ratios:
+    /**
+     * Publish the pending execution to the control topic and wait out the delay. It is
+     * persisted first, so a restart keeps the original ETA.
+     */
+    private async startTimelock(ratios: TokenRatios, timelock: TimelockConfig): Promise<void> {
+        const now = new Date();
+        const pending = this.state.pendingExecution ?? {
+            roundId: this.state.round.id,
+            ratios,
+            createdAt: now,
+            eta: new Date(now.getTime() + timelock.delayMs)
+        };
+        await this.updateState({ pendingExecution: pending });
 
-${JSON.stringify(ratios, null, 2)}
+        const record: PendingExecutionRecord = {
+            type: 'PENDING_EXECUTION',
+            version: 1,
+            roundId: pending.roundId,
+            ratios: pending.ratios,
+            eta: pending.eta,
+            guardians: timelock.guardians
+        };
+        await this.sendThroughOutbox({
+            purpose: 'pending_execution',
+            topicId: timelock.controlTopicId,
+            message: JSON.stringify(record),
+            idempotencyKey: idempotencyKey(pending.roundId, 'PendingExecution')
+        });
+        await this.sendDashboardAlert(createAlert('ExecutionPending', pending.roundId, {
+            ratios: pending.ratios,
+            eta: pending.eta,
+            guardians: timelock.guardians,
+            controlTopicId: timelock.controlTopicId
+        }));
 
-Update the contract and return the result.`
-            });
-            
-            await this.sendDashboardAlert("Contract Updated: Token ratios have been successfully updated on the Lynx contract.");
-        } catch (error) {
-            console.error("❌ Error updating contract:", error);
+        await this.updateRoundStatus('TIMELOCKED');
+        console.log(`🔒 Round ${pending.roundId} timelocked until ${pending.eta.toISOString()}`);
+        this.scheduleTimelockCheck();
+    }
+
+    private isTimelockReleased(at: Date): boolean {
+        const graceMs = this.timelock?.graceMs ?? DEFAULT_VETO_GRACE_MS;
+        // After a restart, give the control topic subscription time to deliver missed vetoes
+        return isTimelockElapsed(this.state.pendingExecution!, at, graceMs) && Date.now() >= this.vetoCatchUpUntil;
+    }
+
+    private scheduleTimelockCheck(): void {
+        clearTimeout(this.timelockTimer);
+        const pending = this.state.pendingExecution;
+        if (!this.isRunning || this.state.round.status !== 'TIMELOCKED' || !pending) {
+            return;
         }
+        const graceMs = this.timelock?.graceMs ?? DEFAULT_VETO_GRACE_MS;
+        const releaseAt = Math.max(pending.eta.getTime() + graceMs, this.vetoCatchUpUntil);
+        this.timelockTimer = setTimeoutAt(releaseAt, () => {
+            if (!this.isRunning) return;
+            this.enqueue(() => this.executeGovernanceFlow(new Date()))
+                .catch(error => console.error("❌ Error executing timelocked round:", error))
+                .finally(() => this.scheduleTimelockCheck());
+        });
     }
 
-    private async createSnapshot(ratios: any): Promise<void> {
-        try {
-            await this.agentExecutor!.invoke({
-                input: `Use the create_token_snapshot tool to create a snapshot with these ratios:
+    private startControlListener(timelock: TimelockConfig): void {
+        console.log(`🛡️  Watching control topic ${timelock.controlTopicId} for vetoes from ${timelock.guardians.join(', ')}`);
+        this.vetoCatchUpUntil = Date.now() + (timelock.graceMs ?? DEFAULT_VETO_GRACE_MS);
+        this.controlSubscription = this.consensusTransport!.subscribe(
+            timelock.controlTopicId,
+            this.state.pendingExecution?.createdAt ?? new Date(),
+            async (message) => {
+                if (!this.isRunning) return;
+                // Skip anything that isn't a veto, including the agent's own pending execution
+                // records, without waiting on the queue that published them
+                const veto = parseVetoMessage(Buffer.from(message.contents).toString('utf8'));
+                if (!veto) return;
+                try {
+                    await this.enqueue(() => this.processVeto(veto, message));
+                } catch (error) {
+                    console.error("❌ Error processing veto:", error);
+                }
+            },
+            (error) => {
+                console.error("❌ Control topic subscription error:", error);
+            }
+        );
+    }
+
+    private async processVeto(veto: VetoMessage, message: ConsensusMessage): Promise<void> {
+        const pending = this.state.pendingExecution;
+        if (this.state.round.status !== 'TIMELOCKED' || !pending) {
+            console.log(`🛡️  Ignoring veto for ${veto.roundId}: no execution is pending`);
+            return;
+        }
+        const rejection = await authenticateVeto(
+            veto,
+            message.payerAccountId,
+            message.consensusTimestamp,
+            pending,
+            this.timelock!,
+            this.voteAuthOptions.keyResolver
+        );
+        if (rejection) {
+            console.warn(`⚠️  Veto #${message.sequenceNumber} not accepted: ${rejection}`);
+            return;
+        }
+
+        console.log(`🛑 Guardian ${veto.guardianAccountId} vetoed round ${pending.roundId}`);
+        clearTimeout(this.timelockTimer);
+        await this.updateState({
+            pendingExecution: {
+                ...pending,
+                veto: {
+                    guardianAccountId: veto.guardianAccountId,
+                    reason: veto.reason,
+                    sequenceNumber: message.sequenceNumber,
+                    consensusTimestamp: message.consensusTimestamp
+                }
+            }
+        });
+        await this.updateRoundStatus('VETOED', `Vetoed by guardian ${veto.guardianAccountId}${veto.reason ? `: ${veto.reason}` : ''}`);
+        await this.sendDashboardAlert(createAlert('ExecutionVetoed', pending.roundId, {
+            guardianAccountId: veto.guardianAccountId,
+            reason: veto.reason,
+            ratios: pending.ratios
+        }));
+        await this.startNextRound();
+    }
 
-Ratios: ${JSON.stringify(ratios, null, 2)}
-Session ID: governance_round_${new Date().toISOString().split('T')[0]}
-Created By: ${this.environment.HEDERA_ACCOUNT_ID}
+    private async failRound(reason: string): Promise<void> {
+        console.error(`❌ Round ${this.state.round.id} failed: ${reason}`);
+        await this.updateRoundStatus('FAILED', reason);
+        await this.sendDashboardAlert(createAlert('RoundFailed', this.state.round.id, { reason }));
+        await this.startNextRound();
+    }
 
-Create and send the snapshot.`
-            });
+    /**
+     * Tally the round with its strategy and reconcile the winners into a valid allocation.
+     * Throws when the reconciliation policy fails the round.
+     */
+    private calculateWinningRatios(): Pick<GovernanceState, 'tallyResult' | 'winningRatios'> {
+        const { votes } = this.state;
+        const { tallyStrategy, reconciliationPolicy } = this.state.round;
+
+        const tally = tallyVotes(votes, tallyStrategy);
+        console.log(`🏆 Tally (${tally.tallyStrategy}): ${tally.voterCount} voters, ${tally.totalVotingPower} total power`);
+
+        const outcome = reconcileRatios(tally, votes, reconciliationPolicy, this.tokenRegistry.symbols);
+        console.log(`⚖️  Reconciliation (${outcome.reconciliation.policy}): winners summed to ${outcome.reconciliation.originalTotal}%${outcome.reconciliation.adjusted ? ', adjusted' : ''}`);
+        if (!outcome.success) {
+            throw new Error(outcome.reason);
+        }
+
+        const tallyResult = { ...tally, winningRatios: outcome.ratios, reconciliation: outcome.reconciliation };
+        return { tallyResult, winningRatios: toTokenRatios(tallyResult, this.tokenRegistry) };
+    }
+
+    /**
+     * Check the winners against the guardrails, measuring change limits from the ratios
+     * currently on the contract. Fails the round and returns null when those can't be read.
+     */
+    private async checkRatioPolicy(requested: TokenRatios): Promise<PolicyOutcome | null> {
+        let previous: TokenRatios;
+        try {
+            previous = await this.readContractRatios();
         } catch (error) {
-            console.error("❌ Error creating snapshot:", error);
+            await this.failRound(`Current contract ratios could not be read: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
         }
+
+        const outcome = applyRatioPolicy(requested, previous, this.ratioPolicy, this.tokenRegistry);
+        const violations = outcome.violations.map(violation => violation.message);
+        console.log(`🛡️  Guardrails: ${outcome.action}${violations.length > 0 ? ` (${violations.join('; ')})` : ''}`);
+        if (outcome.action === 'clamped') {
+            await this.sendDashboardAlert(createAlert('PolicyClamped', this.state.round.id, {
+                requested,
+                ratios: outcome.ratios!,
+                violations
+            }));
+        } else if (outcome.action === 'blocked') {
+            await this.sendDashboardAlert(createAlert('PolicyBlocked', this.state.round.id, {
+                requested,
+                violations,
+                reason: outcome.reason!
+            }));
+        }
+        return outcome;
     }
 
-    private resetGovernanceState(): void {
-        console.log("🔄 Resetting governance state for next round...");
-        this.collectedVotes = [];
-        this.currentVotingPower = 0;
+    /**
+     * Update the contract only when it doesn't already hold the winning ratios, then read
+     * them back. Only a verified read-back counts as a successful update.
+     */
+    private async updateContract(ratios: TokenRatios): Promise<ContractUpdateOutcome> {
+        const contractId = this.environment.LYNX_CONTRACT!;
+
+        let current: TokenRatios;
+        try {
+            current = await this.readContractRatios();
+        } catch (error) {
+            const reason = `Current contract ratios could not be read: ${error instanceof Error ? error.message : String(error)}`;
+            console.error(`❌ ${reason}`);
+            await this.sendDashboardAlert(createAlert('ContractUpdateFailed', this.state.round.id, { contractId, role: this.contractRole, error: reason, ratios }));
+            return { status: 'failed', reason };
+        }
+        if (ratioDifferences(ratios, current).length === 0) {
+            // An update sent before a restart may have landed without its outcome being saved;
+            // it is still this round's update, and the balancer has to hear about it
+            if (this.state.contractUpdateSentAt || this.state.scheduledExecution) {
+                console.log("✅ Contract holds the winning ratios from the update sent before the restart");
+                const transactionId = this.state.scheduledExecution?.transactionId;
+                await this.sendDashboardAlert(createAlert('ContractUpdated', this.state.round.id, { contractId, role: this.contractRole, transactionId, ratios }));
+                return { status: 'updated', transactionId };
+            }
+            console.log("⏭️  Contract already holds the winning ratios, skipping update");
+            await this.sendDashboardAlert(createAlert('ContractUnchanged', this.state.round.id, { contractId, role: this.contractRole, ratios }));
+            return { status: 'unchanged' };
+        }
+
+        if (this.scheduledExecution) {
+            return this.scheduleContractUpdate(ratios, this.scheduledExecution);
+        }
+
+        await this.updateState({ contractUpdateSentAt: new Date() });
+        const result = await this.updateContractTool!.updateRatios(ratios);
+        if (!result.success) {
+            console.error("❌ Error updating contract:", result.error);
+            await this.sendDashboardAlert(createAlert('ContractUpdateFailed', this.state.round.id, { contractId, role: this.contractRole, error: result.error, ratios }));
+            return { status: 'failed', reason: `Contract update failed: ${result.error}` };
+        }
+        return this.verifyContractUpdate(ratios, result.transactionId);
     }
 
+    /**
+     * Read the ratios back after an update and report the outcome. A mismatch means the
+     * update didn't take effect, e.g. the call reverted inside an executed schedule.
+     */
+    private async verifyContractUpdate(ratios: TokenRatios, transactionId: string): Promise<ContractUpdateOutcome> {
+        const contractId = this.environment.LYNX_CONTRACT!;
+
+        // A dry run never changes the contract, so there is nothing to read back
+        if (!this.executor!.dryRun) {
+            let actual: TokenRatios | undefined;
+            let error: string;
+            try {
+                actual = await this.readContractRatios();
+                error = ratioDifferences(ratios, actual).join('; ');
+            } catch (readError) {
+                error = `Ratios could not be read back: ${readError instanceof Error ? readError.message : String(readError)}`;
+            }
+            if (error) {
+                console.error(`❌ Contract verification failed after ${transactionId}: ${error}`);
+                await this.sendDashboardAlert(createAlert('ContractVerificationFailed', this.state.round.id, {
+                    contractId,
+                    role: this.contractRole,
+                    transactionId,
+                    expected: ratios,
+                    actual,
+                    error
+                }));
+                return { status: 'failed', reason: `Contract ratios do not match after update: ${error}` };
+            }
+            console.log("✅ Contract ratios verified");
+        }
+
+        await this.sendDashboardAlert(createAlert('ContractUpdated', this.state.round.id, {
+            contractId,
+            role: this.contractRole,
+            transactionId,
+            ratios
+        }));
+        return { status: 'updated', transactionId };
+    }
 
+    /**
+     * Wrap the update in a scheduled transaction for the signers to approve. The schedule's
+     * parameters are persisted first, so a retried create is identical and the network
+     * returns the existing schedule instead of creating a second one.
+     */
+    private async scheduleContractUpdate(ratios: TokenRatios, config: ScheduledExecutionConfig): Promise<ContractUpdateOutcome> {
+        const contractId = this.environment.LYNX_CONTRACT!;
+        const now = new Date();
+        const scheduled = this.state.scheduledExecution ?? {
+            ratios,
+            createdAt: now,
+            expirationTime: config.expiryMs ? new Date(now.getTime() + config.expiryMs) : undefined,
+            signers: config.signers,
+            signedBy: []
+        };
+        await this.updateState({ scheduledExecution: scheduled });
 
+        const result = await this.updateContractTool!.scheduleRatios(scheduled.ratios, {
+            memo: `Lynx governance ${this.state.round.id}`,
+            payerAccountId: config.payerAccountId,
+            expirationTime: scheduled.expirationTime
+        });
+        if (!result.success) {
+            console.error("❌ Error scheduling contract update:", result.error);
+            await this.sendDashboardAlert(createAlert('ContractUpdateFailed', this.state.round.id, { contractId, role: this.contractRole, error: result.error, ratios }));
+            return { status: 'failed', reason: `Contract update could not be scheduled: ${result.error}` };
+        }
+        await this.updateState({
+            scheduledExecution: { ...scheduled, scheduleId: result.scheduleId, transactionId: result.transactionId }
+        });
 
+        console.log(`🗓️  Contract update scheduled as ${result.scheduleId}, waiting for ${scheduled.signers.join(', ')}`);
+        await this.sendDashboardAlert(createAlert('ScheduleCreated', this.state.round.id, {
+            scheduleId: result.scheduleId,
+            transactionId: result.transactionId,
+            role: this.contractRole,
+            ratios: scheduled.ratios,
+            signers: scheduled.signers,
+            payerAccountId: config.payerAccountId,
+            expirationTime: scheduled.expirationTime
+        }));
 
-    private async sendBalancerAlert(): Promise<void> {
-        if (!this.agentExecutor) {
-            throw new Error("Agent executor not initialized");
+        // Nobody signs a dry run's schedule; report it as the update
+        if (this.executor!.dryRun) {
+            return this.verifyContractUpdate(scheduled.ratios, result.transactionId);
         }
-        
-        try {
-            const result = await this.agentExecutor.invoke({
-                input: `CRITICAL: Use submit_topic_message_tool to send message to topic ${this.environment.BALANCER_ALERT_TOPIC} ONLY.
+        return { status: 'scheduled' };
+    }
 
-Message: "Balancer Alert: New token ratios have been updated."
+    /**
+     * Report new signatures on the pending schedule, then finish the update once the
+     * network has executed it, or fail the round once it expired or was deleted.
+     */
+    private async checkScheduledUpdate(at: Date): Promise<ContractUpdateOutcome> {
+        let scheduled = this.state.scheduledExecution!;
+        const scheduleId = scheduled.scheduleId!;
+        let status: ScheduleStatus | null;
+        try {
+            status = await this.scheduleGateway!.getStatus(scheduleId);
+        } catch (error) {
+            console.warn(`⚠️  Schedule ${scheduleId} could not be read, retrying: ${error instanceof Error ? error.message : String(error)}`);
+            return { status: 'scheduled' };
+        }
 
-Topic ID: ${this.environment.BALANCER_ALERT_TOPIC}
+        if (status && this.voteAuthOptions.keyResolver) {
+            const signedBy = await signedAccounts(scheduled.signers, status.signatories, this.voteAuthOptions.keyResolver);
+            const newSigners = signedBy.filter(account => !scheduled.signedBy.includes(account));
+            if (newSigners.length > 0) {
+                scheduled = { ...scheduled, signedBy };
+                await this.updateState({ scheduledExecution: scheduled });
+                for (const signerAccountId of newSigners) {
+                    console.log(`✍️  ${signerAccountId} signed schedule ${scheduleId} (${signedBy.length}/${scheduled.signers.length})`);
+                    await this.sendDashboardAlert(createAlert('ScheduleSigned', this.state.round.id, {
+                        scheduleId,
+                        signerAccountId,
+                        signedBy,
+                        signers: scheduled.signers
+                    }));
+                }
+            }
+        }
 
-NEVER use voting topic ${this.environment.CURRENT_ROUND_VOTING_TOPIC}!`
+        if (status?.executedAt) {
+            const transactionId = status.scheduledTransactionId ?? scheduled.transactionId!;
+            await this.updateState({
+                scheduledExecution: { ...scheduled, executedAt: status.executedAt, scheduledTransactionId: status.scheduledTransactionId }
             });
+            console.log(`✅ Schedule ${scheduleId} executed in ${transactionId}`);
+            await this.sendDashboardAlert(createAlert('ScheduleExecuted', this.state.round.id, {
+                scheduleId,
+                scheduledTransactionId: status.scheduledTransactionId,
+                signedBy: scheduled.signedBy
+            }));
+            return this.verifyContractUpdate(scheduled.ratios, transactionId);
+        }
 
-            console.log("⚖️ Balancer alert sent.");
-        } catch (error) {
-            console.error("❌ Error sending balancer alert:", error);
+        const expirationTime = status?.expirationTime ?? scheduled.expirationTime;
+        const reason = !status ? 'no longer exists'
+            : status.deletedAt ? `was deleted at ${status.deletedAt.toISOString()}`
+            : expirationTime && at.getTime() >= expirationTime.getTime() ? `expired at ${expirationTime.toISOString()}`
+            : null;
+        if (!reason) {
+            return { status: 'scheduled' };
+        }
+
+        console.error(`❌ Schedule ${scheduleId} ${reason} before it executed`);
+        await this.sendDashboardAlert(createAlert('ScheduleExpired', this.state.round.id, {
+            scheduleId,
+            reason,
+            signedBy: scheduled.signedBy,
+            signers: scheduled.signers
+        }));
+        return { status: 'failed', reason: `Scheduled contract update ${scheduleId} ${reason} before it executed` };
+    }
+
+    private scheduleSignatureCheck(): void {
+        clearTimeout(this.scheduleTimer);
+        if (!this.isRunning || this.state.round.status !== 'SCHEDULED') {
+            return;
+        }
+        const delay = this.scheduledExecution?.pollIntervalMs ?? DEFAULT_SCHEDULE_POLL_MS;
+        this.scheduleTimer = setTimeout(() => {
+            if (!this.isRunning) return;
+            this.enqueue(() => this.executeGovernanceFlow(new Date()))
+                .catch(error => console.error("❌ Error checking scheduled update:", error))
+                .finally(() => this.scheduleSignatureCheck());
+        }, delay);
+    }
+
+    private readContractRatios(): Promise<TokenRatios> {
+        return readContractRatios(
+            this.contractGateway!,
+            this.environment.LYNX_CONTRACT!,
+            this.tokenRegistry,
+            this.environment.LYNX_RATIOS_FUNCTION!
+        );
+    }
+
+    private async createSnapshot(ratios: TokenRatios): Promise<string | null> {
+        const result = await this.createSnapshotTool!.createSnapshot({
+            ratios,
+            roundId: this.state.round.id,
+            createdBy: this.environment.HEDERA_ACCOUNT_ID!,
+            votes: this.state.votes,
+            quorumThreshold: this.state.round.quorum.threshold,
+            tallyStrategy: this.state.round.tallyStrategy,
+            contractTransactionId: this.state.contractTransactionId,
+            policy: this.state.policyOutcome
+        });
+        if (!result.success) {
+            console.error("❌ Error creating snapshot:", result.error);
+            return null;
+        }
+        if (!result.delivered) {
+            console.warn(`⚠️  Snapshot ${result.snapshotId} not delivered yet, the outbox keeps retrying it`);
         }
+        return result.snapshotId;
     }
 
-    private async sendDashboardAlert(message: string): Promise<void> {
-        if (!this.agentExecutor) {
-            throw new Error("Agent executor not initialized");
+    private async startNextRound(startTime: Date = new Date()): Promise<void> {
+        console.log(`🔄 Round ${this.state.round.id} closed (${this.state.round.status}), opening next round...`);
+        const { messagesProcessed, votesAccepted, votesSuperseded, rejections } = this.state.statistics;
+        const rejected = Object.entries(rejections).map(([code, count]) => `${code}×${count}`).join(', ');
+        console.log(`📈 ${messagesProcessed} messages: ${votesAccepted} votes counted (${votesSuperseded} re-votes)${rejected ? `, rejected: ${rejected}` : ''}`);
+        this.state = createGovernanceState(createRound(this.roundConfig, startTime), this.state);
+        await this.stateStore.save(this.state);
+        if (this.isRunning) {
+            this.scheduleDeadlineCheck();
         }
+        console.log(`🆕 Round ${this.state.round.id} open until ${this.state.round.votingDeadline.toISOString()}`);
 
-        try {
-            console.log(`📊 Sending dashboard alert to topic: ${this.environment.DASHBOARD_ALERT_TOPIC}`);
-            
-            const result = await this.agentExecutor.invoke({
-                input: `CRITICAL: Use submit_topic_message_tool to send message to topic ${this.environment.DASHBOARD_ALERT_TOPIC} ONLY.
+        // Held messages were never checkpointed, so a subscription from the checkpoint delivers
+        // them again, in order, through the processing queue
+        if (this.state.heldThroughSequenceNumber !== undefined && this.isRunning) {
+            await this.startTopicListener();
+        }
+    }
+
+    // Alerts are submitted by the runtime through the outbox, never by the LLM
+    private async sendBalancerAlert(): Promise<void> {
+        const key = idempotencyKey(this.state.round.id, 'BalancerAlert');
+        await this.sendThroughOutbox({
+            purpose: 'balancer_alert',
+            topicId: this.environment.BALANCER_ALERT_TOPIC!,
+            // The balancer reads the first line; the key lets it drop redelivered alerts
+            message: `Balancer Alert: New token ratios have been updated.\nIdempotency-Key: ${key}`,
+            idempotencyKey: key
+        });
+    }
+
+    private async sendDashboardAlert(alert: GovernanceAlert): Promise<void> {
+        console.log(`📊 Sending ${alert.event} alert to topic: ${this.environment.DASHBOARD_ALERT_TOPIC}`);
+        await this.sendThroughOutbox({
+            purpose: 'dashboard_alert',
+            topicId: this.environment.DASHBOARD_ALERT_TOPIC!,
+            message: serializeAlert(alert),
+            idempotencyKey: alert.idempotencyKey
+        });
+    }
 
-Message: "${message}"
+    private receiptBase(checkpoint: MessageCheckpoint, voterAccountId?: string): Omit<VoteReceipt, 'status' | 'effectivePower'> {
+        return {
+            type: 'VOTE_RECEIPT',
+            version: 1,
+            roundId: this.state.round.id,
+            sequenceNumber: checkpoint.lastSequenceNumber,
+            consensusTimestamp: checkpoint.lastConsensusTimestamp,
+            voterAccountId,
+            roundTotalPower: this.state.totalVotingPower,
+            quorumThreshold: this.state.round.quorum.threshold
+        };
+    }
 
-Topic ID: ${this.environment.DASHBOARD_ALERT_TOPIC}
+    // Receipts let voters look up what happened to each of their votes
+    private async sendVoteReceipt(receipt: VoteReceipt): Promise<void> {
+        const topicId = this.environment.VOTE_RECEIPT_TOPIC;
+        if (!topicId) {
+            return;
+        }
+        await this.sendThroughOutbox({
+            purpose: 'vote_receipt',
+            topicId,
+            message: JSON.stringify(receipt),
+            idempotencyKey: idempotencyKey(receipt.roundId, 'VoteReceipt', receipt.sequenceNumber)
+        });
+    }
 
-NEVER use voting topic ${this.environment.CURRENT_ROUND_VOTING_TOPIC} for alerts!`
-            });
+    /**
+     * A dead-lettered message is no longer retried, so someone has to look at it. Failed
+     * dashboard alerts are only logged, since the report would go to the failing topic.
+     */
+    private reportDeadLetter(message: OutboxMessage): void {
+        if (message.topicId === this.environment.DASHBOARD_ALERT_TOPIC) {
+            return;
+        }
+        void this.sendDashboardAlert(createAlert('OutboxDeadLettered', this.state.round.id, {
+            idempotencyKey: message.idempotencyKey,
+            purpose: message.purpose,
+            topicId: message.topicId,
+            attempts: message.attempts,
+            lastError: message.lastError
+        }));
+    }
 
-            console.log(`🔍 Dashboard alert result:`, result.output.substring(0, 200));
+    // A snapshot is announced once the snapshot topic has it, not when it is queued
+    private reportDelivered(message: OutboxMessage): void {
+        if (message.purpose !== 'snapshot') {
+            return;
+        }
+        try {
+            const snapshot = TokenRatioSnapshotDataSchema.parse(JSON.parse(JSON.parse(message.message).metadata));
+            void this.sendDashboardAlert(createAlert('SnapshotPublished', snapshot.round_id, {
+                snapshotId: snapshot.snapshot_id,
+                topicId: message.topicId,
+                transactionId: message.transactionId!,
+                hash: snapshot.hash,
+                votesMerkleRoot: snapshot.votes_merkle_root
+            }));
+        } catch (error) {
+            console.error(`❌ Delivered snapshot ${message.idempotencyKey} could not be read:`, error);
+        }
+    }
 
-            console.log("📊 Dashboard alert sent.");
+    /**
+     * Once queued, an alert is retried until delivered, so a failed attempt is only logged
+     * and never holds up the governance flow.
+     */
+    private async sendThroughOutbox(submission: OutboxSubmission): Promise<void> {
+        try {
+            const queued = await this.outbox!.enqueue(submission);
+            console.log(queued
+                ? `📮 ${submission.purpose} ${submission.idempotencyKey} queued`
+                : `📮 ${submission.purpose} ${submission.idempotencyKey} already sent, skipping`);
         } catch (error) {
-            console.error("❌ Error sending dashboard alert:", error);
+            console.error(`❌ Error queueing ${submission.purpose}:`, error);
         }
     }
-}
\ No newline at end of file
+}
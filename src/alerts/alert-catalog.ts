@@ -0,0 +1,162 @@
+import {
+    ALERT_SCHEMA_VERSION,
+    Alert,
+    GovernanceAlert,
+    GovernanceAlertData,
+    GovernanceAlertEvent,
+    GovernanceAlertSchema
+} from '../typescript/alert.js';
+
+interface AlertCatalogEntry<E extends GovernanceAlertEvent> {
+    title: string;
+    type: Alert['type'];
+    message(data: GovernanceAlertData<E>): string;
+    // Distinguishes alerts an event can send more than once per round
+    discriminator?(data: GovernanceAlertData<E>): string | number;
+}
+
+const formatRatios = (ratios: Record<string, number>) =>
+    Object.entries(ratios).map(([token, ratio]) => `${token} ${ratio}%`).join(', ');
+
+export const ALERT_CATALOG: { [E in GovernanceAlertEvent]: AlertCatalogEntry<E> } = {
+    VoteReceived: {
+        title: 'Vote Confirmed',
+        type: 'INFO',
+        message: data => `Vote from ${data.voterAccountId} with ${data.votingPower} voting power confirmed${data.replacedSequenceNumber !== undefined ? `, replacing vote #${data.replacedSequenceNumber}` : ''} (${data.totalVotingPower}/${data.quorumThreshold}).`,
+        discriminator: data => data.sequenceNumber
+    },
+    VoteRejected: {
+        title: 'Vote Rejected',
+        type: 'WARNING',
+        message: data => `Message #${data.sequenceNumber}${data.voterAccountId ? ` from ${data.voterAccountId}` : ''} rejected [${data.code}]: ${data.reason}`,
+        discriminator: data => data.sequenceNumber
+    },
+    QuorumReached: {
+        title: 'Quorum Reached',
+        type: 'INFO',
+        message: data => `Governance voting threshold has been met (${data.totalVotingPower}/${data.quorumThreshold} from ${data.voterCount} voters). Processing results...`
+    },
+    RatiosReconciled: {
+        title: 'Ratios Reconciled',
+        type: 'WARNING',
+        message: data => `Winning ratios summed to ${data.originalTotal}%, adjusted to 100% using the ${data.policy} policy: ${formatRatios(data.ratios)}.`
+    },
+    PolicyClamped: {
+        title: 'Ratios Clamped',
+        type: 'WARNING',
+        message: data => `Winning ratios broke the guardrails (${data.violations.join('; ')}) and were clamped to ${formatRatios(data.ratios)}.`
+    },
+    PolicyBlocked: {
+        title: 'Ratios Blocked',
+        type: 'ERROR',
+        message: data => `Winning ratios ${formatRatios(data.requested)} were blocked by the guardrails: ${data.reason}`
+    },
+    ExecutionPending: {
+        title: 'Execution Pending',
+        type: 'INFO',
+        message: data => `Winning ratios ${formatRatios(data.ratios)} will be executed at ${data.eta.toISOString()} unless a guardian vetoes on ${data.controlTopicId}.`
+    },
+    ExecutionVetoed: {
+        title: 'Execution Vetoed',
+        type: 'WARNING',
+        message: data => `Guardian ${data.guardianAccountId} vetoed the execution of ${formatRatios(data.ratios)}${data.reason ? `: ${data.reason}` : '.'}`
+    },
+    ScheduleCreated: {
+        title: 'Execution Scheduled',
+        type: 'INFO',
+        message: data => `Contract update to ${formatRatios(data.ratios)} (${data.role} role) is scheduled as ${data.scheduleId} and needs signatures from ${data.signers.join(', ')}.`
+    },
+    ScheduleSigned: {
+        title: 'Schedule Signed',
+        type: 'INFO',
+        message: data => `${data.signerAccountId} signed schedule ${data.scheduleId} (${data.signedBy.length}/${data.signers.length} signers).`,
+        discriminator: data => data.signerAccountId
+    },
+    ScheduleExecuted: {
+        title: 'Schedule Executed',
+        type: 'INFO',
+        message: data => `Schedule ${data.scheduleId} has been executed${data.scheduledTransactionId ? ` in ${data.scheduledTransactionId}` : ''}.`
+    },
+    ScheduleExpired: {
+        title: 'Schedule Expired',
+        type: 'ERROR',
+        message: data => `Schedule ${data.scheduleId} ${data.reason} with ${data.signedBy.length}/${data.signers.length} signatures; the contract was not updated.`
+    },
+    ContractUpdated: {
+        title: 'Contract Updated',
+        type: 'INFO',
+        message: data => `Token ratios have been successfully updated on the Lynx contract with the ${data.role} role: ${formatRatios(data.ratios)}.`
+    },
+    ContractUpdateFailed: {
+        title: 'Contract Update Failed',
+        type: 'ERROR',
+        message: data => `Updating ${data.contractId} with the ${data.role} role failed: ${data.error}`
+    },
+    ContractUnchanged: {
+        title: 'Contract Unchanged',
+        type: 'INFO',
+        message: data => `The Lynx contract already holds the winning ratios, no update sent: ${formatRatios(data.ratios)}.`
+    },
+    ContractVerificationFailed: {
+        title: 'Contract Verification Failed',
+        type: 'ERROR',
+        message: data => `Ratios read back from ${data.contractId} after ${data.transactionId} (${data.role} role) do not match: ${data.error}`
+    },
+    SnapshotPublished: {
+        title: 'Snapshot Published',
+        type: 'INFO',
+        message: data => `Token ratio snapshot ${data.snapshotId} published to ${data.topicId}.`
+    },
+    RoundExpired: {
+        title: 'Round Expired',
+        type: 'WARNING',
+        message: data => `Voting deadline passed without reaching quorum (${data.totalVotingPower}/${data.quorumThreshold}).`
+    },
+    RoundFailed: {
+        title: 'Round Failed',
+        type: 'ERROR',
+        message: data => data.reason
+    },
+    OutboxDeadLettered: {
+        title: 'Message Dead-Lettered',
+        type: 'ERROR',
+        message: data => `${data.purpose} ${data.idempotencyKey} to ${data.topicId} failed ${data.attempts} times and is no longer retried${data.lastError ? `: ${data.lastError}` : '.'}`,
+        discriminator: data => data.idempotencyKey
+    }
+};
+
+/**
+ * Idempotency key for an outbound message: the round ID and event type, plus a
+ * discriminator for events that repeat within a round.
+ */
+export function idempotencyKey(roundId: string, event: string, discriminator?: string | number): string {
+    return [roundId, event, discriminator].filter(part => part !== undefined).join(':');
+}
+
+/**
+ * Build a dashboard alert from the catalog. Title, severity and message text come from
+ * the catalog entry so every alert of an event type reads the same.
+ */
+export function createAlert<E extends GovernanceAlertEvent>(
+    event: E,
+    roundId: string,
+    data: GovernanceAlertData<E>,
+    timestamp: Date = new Date()
+): GovernanceAlert {
+    const entry = ALERT_CATALOG[event] as AlertCatalogEntry<E>;
+    return GovernanceAlertSchema.parse({
+        version: ALERT_SCHEMA_VERSION,
+        event,
+        roundId,
+        idempotencyKey: idempotencyKey(roundId, event, entry.discriminator?.(data)),
+        title: entry.title,
+        type: entry.type,
+        message: entry.message(data),
+        timestamp,
+        data
+    });
+}
+
+export function serializeAlert(alert: GovernanceAlert): string {
+    return JSON.stringify(alert);
+}
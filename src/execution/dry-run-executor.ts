@@ -0,0 +1,83 @@
+import { rename, writeFile } from 'fs/promises';
+import { ExecutionPlan, ExecutionStep } from '../typescript/execution.js';
+import { encodeCallData } from '../transport/contract-gateway.js';
+import {
+    ContractExecution,
+    ExecutionReceipt,
+    GovernanceExecutor,
+    ScheduleReceipt,
+    ScheduledContractExecution,
+    TopicSubmission
+} from './executor.js';
+
+/**
+ * Records what the flow would have submitted instead of submitting it. Every step is
+ * logged and the whole plan is rewritten to `planFilePath`, so a shadow agent's plan
+ * can be diffed against what the live agent actually did.
+ */
+export class DryRunExecutor implements GovernanceExecutor {
+    readonly dryRun = true;
+    private plan: ExecutionPlan = { mode: 'dry-run', startedAt: new Date(), steps: [] };
+
+    constructor(private planFilePath: string) {}
+
+    get steps(): ExecutionStep[] {
+        return this.plan.steps;
+    }
+
+    async executeContract(execution: ContractExecution): Promise<ExecutionReceipt> {
+        const callData = encodeCallData(execution.functionName, execution.parameters);
+        console.log(`🧪 [dry-run] ${execution.purpose}: ${execution.functionName} on ${execution.contractId} (gas ${execution.gas})`);
+        console.log(`🧪 [dry-run] call data 0x${callData}`);
+        return this.record({
+            kind: 'contract_execute',
+            step: this.plan.steps.length + 1,
+            purpose: execution.purpose,
+            contractId: execution.contractId,
+            functionName: execution.functionName,
+            gas: execution.gas,
+            callData,
+            args: execution.args
+        });
+    }
+
+    async scheduleContract(execution: ScheduledContractExecution): Promise<ScheduleReceipt> {
+        const callData = encodeCallData(execution.functionName, execution.parameters);
+        console.log(`🧪 [dry-run] ${execution.purpose}: schedule ${execution.functionName} on ${execution.contractId} from ${execution.payerAccountId ?? 'the operator'}`);
+        console.log(`🧪 [dry-run] call data 0x${callData}`);
+        const receipt = await this.record({
+            kind: 'schedule_create',
+            step: this.plan.steps.length + 1,
+            purpose: execution.purpose,
+            contractId: execution.contractId,
+            functionName: execution.functionName,
+            gas: execution.gas,
+            callData,
+            memo: execution.memo,
+            payerAccountId: execution.payerAccountId,
+            expirationTime: execution.expirationTime,
+            args: execution.args
+        });
+        return { ...receipt, scheduleId: `dry-run-schedule-${this.plan.steps.length}` };
+    }
+
+    async submitMessage(submission: TopicSubmission): Promise<ExecutionReceipt> {
+        console.log(`🧪 [dry-run] ${submission.purpose}: message to ${submission.topicId}`);
+        console.log(`🧪 [dry-run] ${submission.message}`);
+        return this.record({
+            kind: 'topic_message',
+            step: this.plan.steps.length + 1,
+            purpose: submission.purpose,
+            topicId: submission.topicId,
+            message: submission.message
+        });
+    }
+
+    private async record(step: ExecutionStep): Promise<ExecutionReceipt> {
+        this.plan.steps.push(step);
+        const tempPath = `${this.planFilePath}.tmp`;
+        await writeFile(tempPath, JSON.stringify(this.plan, null, 2));
+        await rename(tempPath, this.planFilePath);
+        return { transactionId: `dry-run-${step.step}`, status: 'SIMULATED' };
+    }
+}
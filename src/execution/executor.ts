@@ -0,0 +1,81 @@
+import { ContractFunctionParameters } from '@hashgraph/sdk';
+import { ConsensusTransport, TransactionResult } from '../transport/consensus-transport.js';
+import { ContractGateway } from '../transport/contract-gateway.js';
+import { ScheduleGateway } from '../transport/schedule-gateway.js';
+
+export interface ContractExecution {
+    purpose: string;
+    contractId: string;
+    functionName: string;
+    parameters: ContractFunctionParameters;
+    gas: number;
+    args?: Record<string, unknown>;
+}
+
+export interface ScheduledContractExecution extends ContractExecution {
+    memo: string;
+    payerAccountId?: string;
+    expirationTime?: Date;
+}
+
+export interface TopicSubmission {
+    purpose: string;
+    topicId: string;
+    message: string;
+}
+
+export type ExecutionReceipt = TransactionResult;
+
+export interface ScheduleReceipt extends ExecutionReceipt {
+    scheduleId: string;
+}
+
+/**
+ * Everything the governance flow writes to the network goes through an executor,
+ * so the same flow can run live or as a dry run.
+ */
+export interface GovernanceExecutor {
+    readonly dryRun: boolean;
+    executeContract(execution: ContractExecution): Promise<ExecutionReceipt>;
+    scheduleContract(execution: ScheduledContractExecution): Promise<ScheduleReceipt>;
+    submitMessage(submission: TopicSubmission): Promise<ExecutionReceipt>;
+}
+
+/**
+ * Submits through the contract gateway and consensus transport (Hedera or in-memory).
+ */
+export class TransportExecutor implements GovernanceExecutor {
+    readonly dryRun = false;
+
+    constructor(private contracts: ContractGateway, private consensus: ConsensusTransport, private schedules?: ScheduleGateway) {}
+
+    async executeContract(execution: ContractExecution): Promise<ExecutionReceipt> {
+        const { transactionId, status } = await this.contracts.execute({
+            contractId: execution.contractId,
+            functionName: execution.functionName,
+            parameters: execution.parameters,
+            gas: execution.gas
+        });
+        return { transactionId, status };
+    }
+
+    async scheduleContract(execution: ScheduledContractExecution): Promise<ScheduleReceipt> {
+        if (!this.schedules) {
+            throw new Error('No schedule gateway configured for scheduled execution');
+        }
+        return this.schedules.create({
+            contractId: execution.contractId,
+            functionName: execution.functionName,
+            parameters: execution.parameters,
+            gas: execution.gas,
+            memo: execution.memo,
+            payerAccountId: execution.payerAccountId,
+            expirationTime: execution.expirationTime
+        });
+    }
+
+    async submitMessage(submission: TopicSubmission): Promise<ExecutionReceipt> {
+        const { transactionId, status } = await this.consensus.submit(submission.topicId, submission.message);
+        return { transactionId, status };
+    }
+}
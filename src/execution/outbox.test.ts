@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OutboxMessage } from '../typescript/outbox.js';
+import { InMemoryOutboxStore } from '../state/memory-outbox-store.js';
+import { ExecutionReceipt, GovernanceExecutor, ScheduleReceipt, TopicSubmission } from './executor.js';
+import { MessageOutbox } from './outbox.js';
+
+// Fails the next submissions to a topic, as many times as set in `failures`
+class FlakyExecutor implements GovernanceExecutor {
+    readonly dryRun = false;
+    failures = new Map<string, number>();
+    submitted: TopicSubmission[] = [];
+
+    async submitMessage(submission: TopicSubmission): Promise<ExecutionReceipt> {
+        const remaining = this.failures.get(submission.topicId) ?? 0;
+        if (remaining > 0) {
+            this.failures.set(submission.topicId, remaining - 1);
+            throw new Error('BUSY');
+        }
+        this.submitted.push(submission);
+        return { transactionId: `0.0.1@${this.submitted.length}`, status: 'SUCCESS' };
+    }
+
+    executeContract(): Promise<ExecutionReceipt> {
+        throw new Error('Not used by the outbox');
+    }
+
+    scheduleContract(): Promise<ScheduleReceipt> {
+        throw new Error('Not used by the outbox');
+    }
+}
+
+const submission = (idempotencyKey: string, topicId = '0.0.9002') =>
+    ({ purpose: 'dashboard_alert', topicId, message: `message ${idempotencyKey}`, idempotencyKey });
+
+// No backoff, so the next enqueue or flush retries a failed message straight away
+const options = { baseDelayMs: 0, maxDelayMs: 0 };
+
+describe('MessageOutbox', () => {
+    it('delivers a message once per idempotency key', async () => {
+        const executor = new FlakyExecutor();
+        const delivered: OutboxMessage[] = [];
+        const outbox = new MessageOutbox(new InMemoryOutboxStore(), executor, { ...options, onDelivered: message => delivered.push(message) });
+
+        assert.equal(await outbox.enqueue(submission('round_1:QuorumReached')), true);
+        assert.equal(await outbox.enqueue(submission('round_1:QuorumReached')), false);
+
+        assert.deepEqual(executor.submitted.map(sent => sent.message), ['message round_1:QuorumReached']);
+        assert.equal(outbox.find('round_1:QuorumReached')?.transactionId, '0.0.1@1');
+        assert.deepEqual(delivered.map(message => message.idempotencyKey), ['round_1:QuorumReached']);
+    });
+
+    it('keeps a topic in order while its first message is retried, without holding up other topics', async () => {
+        const executor = new FlakyExecutor();
+        executor.failures.set('0.0.9002', 2);
+        const outbox = new MessageOutbox(new InMemoryOutboxStore(), executor, options);
+
+        // Each enqueue also retries what is due, so 'a' fails twice before it is delivered
+        await outbox.enqueue(submission('a'));
+        await outbox.enqueue(submission('c', '0.0.9003'));
+        assert.deepEqual(executor.submitted.map(sent => sent.message), ['message c']);
+        assert.equal(outbox.find('a')?.lastError, 'BUSY');
+
+        await outbox.enqueue(submission('b'));
+        assert.deepEqual(executor.submitted.map(sent => sent.message), ['message c', 'message a', 'message b']);
+        assert.equal(outbox.pending.length, 0);
+    });
+
+    it('moves a message to the dead letters after the maximum attempts', async () => {
+        const executor = new FlakyExecutor();
+        executor.failures.set('0.0.9002', 10);
+        const deadLettered: OutboxMessage[] = [];
+        const outbox = new MessageOutbox(new InMemoryOutboxStore(), executor, {
+            ...options,
+            maxAttempts: 2,
+            onDeadLetter: message => deadLettered.push(message)
+        });
+
+        await outbox.enqueue(submission('a'));
+        await outbox.flush();
+
+        assert.equal(outbox.pending.length, 0);
+        assert.deepEqual(outbox.deadLettered.map(message => [message.idempotencyKey, message.attempts]), [['a', 2]]);
+        assert.deepEqual(deadLettered.map(message => message.idempotencyKey), ['a']);
+        // A dead-lettered key is never queued again
+        assert.equal(await outbox.enqueue(submission('a')), false);
+    });
+
+    it('retries undelivered messages saved by an earlier run', async () => {
+        const store = new InMemoryOutboxStore();
+        const executor = new FlakyExecutor();
+        executor.failures.set('0.0.9002', 1);
+        await new MessageOutbox(store, executor, options).enqueue(submission('a'));
+        assert.equal(executor.submitted.length, 0);
+
+        const restarted = new MessageOutbox(store, executor, options);
+        await restarted.start();
+        restarted.stop();
+        assert.deepEqual(executor.submitted.map(sent => sent.message), ['message a']);
+        assert.equal(restarted.find('a')?.attempts, 2);
+    });
+});
@@ -0,0 +1,208 @@
+import { OutboxMessage } from '../typescript/outbox.js';
+import { OutboxStore } from '../state/outbox-store.js';
+import { GovernanceExecutor, TopicSubmission } from './executor.js';
+import { setTimeoutAt } from './timer.js';
+
+const DEFAULT_BASE_DELAY_MS = 5_000;
+const DEFAULT_MAX_DELAY_MS = 10 * 60_000;
+const DEFAULT_RETAIN_DELIVERED = 1000;
+const DEFAULT_MAX_ATTEMPTS = 20;
+
+export interface OutboxSubmission extends TopicSubmission {
+    idempotencyKey: string;
+}
+
+export interface MessageOutboxOptions {
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    // Attempts before a message is moved to the dead letters and no longer retried
+    maxAttempts?: number;
+    // Called for each message moved to the dead letters, e.g. to alert an operator
+    onDeadLetter?: (message: OutboxMessage) => void;
+    // Called for each message once a receipt confirms it, e.g. to announce what was published
+    onDelivered?: (message: OutboxMessage) => void;
+    // Delivered messages kept so a key enqueued again (e.g. by a resumed flow) is not resent
+    retainDelivered?: number;
+}
+
+/**
+ * Persists every outbound topic message before submitting it, then delivers each topic's
+ * messages in order, retrying failures with exponential backoff until a receipt confirms
+ * them. A failing topic never holds up the others, and a message that still fails after
+ * the maximum attempts is moved to the dead letters and reported. Unconfirmed messages are loaded and
+ * retried on start, so a restart never drops one.
+ */
+export class MessageOutbox {
+    private messages: OutboxMessage[] = [];
+    private deadLetters: OutboxMessage[] = [];
+    private loading?: Promise<void>;
+    private queue: Promise<void> = Promise.resolve();
+    private retryTimer?: NodeJS.Timeout;
+    private running = false;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private maxAttempts: number;
+    private retainDelivered: number;
+    private onDeadLetter?: (message: OutboxMessage) => void;
+    private onDelivered?: (message: OutboxMessage) => void;
+
+    constructor(private store: OutboxStore, private executor: GovernanceExecutor, options: MessageOutboxOptions = {}) {
+        this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+        this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+        this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+        this.retainDelivered = options.retainDelivered ?? DEFAULT_RETAIN_DELIVERED;
+        this.onDeadLetter = options.onDeadLetter;
+        this.onDelivered = options.onDelivered;
+    }
+
+    get pending(): OutboxMessage[] {
+        return this.messages.filter(message => !message.deliveredAt);
+    }
+
+    get deadLettered(): OutboxMessage[] {
+        return [...this.deadLetters];
+    }
+
+    // The queued, delivered or dead-lettered message with this key, if it is still kept
+    find(idempotencyKey: string): OutboxMessage | undefined {
+        return [...this.messages, ...this.deadLetters].find(message => message.idempotencyKey === idempotencyKey);
+    }
+
+    async start(): Promise<void> {
+        this.running = true;
+        await this.flush();
+        if (this.pending.length > 0) {
+            console.log(`📮 ${this.pending.length} undelivered outbox messages, retrying`);
+        }
+    }
+
+    stop(): void {
+        this.running = false;
+        clearTimeout(this.retryTimer);
+    }
+
+    /**
+     * Persist the message and attempt delivery. Returns false when a message with the same
+     * idempotency key was already queued or delivered.
+     */
+    enqueue(submission: OutboxSubmission): Promise<boolean> {
+        return this.exclusive(async () => {
+            if ([...this.messages, ...this.deadLetters].some(message => message.idempotencyKey === submission.idempotencyKey)) {
+                return false;
+            }
+            const now = new Date();
+            this.messages.push({
+                idempotencyKey: submission.idempotencyKey,
+                purpose: submission.purpose,
+                topicId: submission.topicId,
+                message: submission.message,
+                createdAt: now,
+                attempts: 0,
+                nextAttemptAt: now
+            });
+            await this.save();
+            await this.deliverDue();
+            return true;
+        });
+    }
+
+    flush(): Promise<void> {
+        return this.exclusive(() => this.deliverDue());
+    }
+
+    // Loading, enqueueing and delivery run one at a time so saves never interleave
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(async () => {
+            this.loading ??= this.store.load().then(outbox => {
+                this.messages = outbox.messages;
+                this.deadLetters = outbox.deadLetters;
+            });
+            await this.loading;
+            return task();
+        });
+        this.queue = run.then(() => undefined, () => undefined);
+        return run;
+    }
+
+    private save(): Promise<void> {
+        return this.store.save({ messages: this.messages, deadLetters: this.deadLetters });
+    }
+
+    private async deliverDue(): Promise<void> {
+        clearTimeout(this.retryTimer);
+        // Skip the rest of a topic after its first message still backing off, so consumers
+        // see each topic's messages in order
+        const blockedTopics = new Set<string>();
+        for (const message of this.pending) {
+            if (blockedTopics.has(message.topicId)) {
+                continue;
+            }
+            if (message.nextAttemptAt.getTime() > Date.now() || !(await this.deliver(message))) {
+                if (!message.deadLetteredAt) {
+                    blockedTopics.add(message.topicId);
+                }
+            }
+        }
+        this.prune();
+        await this.save();
+        this.scheduleRetry();
+    }
+
+    private async deliver(message: OutboxMessage): Promise<boolean> {
+        message.attempts += 1;
+        try {
+            const { transactionId, status } = await this.executor.submitMessage({
+                purpose: message.purpose,
+                topicId: message.topicId,
+                message: message.message
+            });
+            if (!this.executor.dryRun && status !== 'SUCCESS') {
+                throw new Error(`Receipt status ${status}`);
+            }
+            message.deliveredAt = new Date();
+            message.transactionId = transactionId;
+            delete message.lastError;
+            this.onDelivered?.(message);
+            return true;
+        } catch (error) {
+            const delay = Math.min(this.baseDelayMs * 2 ** (message.attempts - 1), this.maxDelayMs);
+            message.nextAttemptAt = new Date(Date.now() + delay);
+            message.lastError = error instanceof Error ? error.message : String(error);
+            if (message.attempts >= this.maxAttempts) {
+                message.deadLetteredAt = new Date();
+                this.messages = this.messages.filter(pending => pending !== message);
+                this.deadLetters.push(message);
+                console.error(`☠️  Delivering ${message.idempotencyKey} failed ${message.attempts} times, moved to the dead letters: ${message.lastError}`);
+                this.onDeadLetter?.(message);
+            } else {
+                console.error(`❌ Delivering ${message.idempotencyKey} failed (attempt ${message.attempts}), retrying in ${delay / 1000}s: ${message.lastError}`);
+            }
+            await this.save();
+            return false;
+        }
+    }
+
+    private prune(): void {
+        const delivered = this.messages.filter(message => message.deliveredAt);
+        const excess = delivered.length - this.retainDelivered;
+        if (excess > 0) {
+            const dropped = new Set(delivered.slice(0, excess));
+            this.messages = this.messages.filter(message => !dropped.has(message));
+        }
+    }
+
+    private scheduleRetry(): void {
+        // Only the first pending message of each topic can be due; the rest wait behind it
+        const heads = new Map<string, OutboxMessage>();
+        for (const message of this.pending) {
+            if (!heads.has(message.topicId)) heads.set(message.topicId, message);
+        }
+        if (!this.running || heads.size === 0) {
+            return;
+        }
+        const nextAttemptAt = Math.min(...[...heads.values()].map(message => message.nextAttemptAt.getTime()));
+        this.retryTimer = setTimeoutAt(nextAttemptAt, () => {
+            this.flush().catch(error => console.error("❌ Error flushing outbox:", error));
+        });
+    }
+}
@@ -0,0 +1,31 @@
+import { AccountKeyResolver } from '../governance/vote-auth.js';
+
+export const DEFAULT_SCHEDULE_POLL_MS = 30_000;
+
+export interface ScheduledExecutionConfig {
+    // Accounts whose signatures are tracked and reported; the payer's key decides when it runs
+    signers: string[];
+    payerAccountId?: string;
+    // Network default (30 minutes) unless given
+    expiryMs?: number;
+    pollIntervalMs?: number;
+}
+
+/**
+ * The signer accounts whose public key is among the schedule's signatories. Accounts
+ * without a single resolvable public key (e.g. threshold keys) are never reported.
+ */
+export async function signedAccounts(
+    signers: string[],
+    signatories: string[],
+    keyResolver: AccountKeyResolver
+): Promise<string[]> {
+    const signed: string[] = [];
+    for (const account of signers) {
+        const publicKey = await keyResolver.getPublicKey(account);
+        if (publicKey && signatories.includes(publicKey.toStringRaw())) {
+            signed.push(account);
+        }
+    }
+    return signed;
+}
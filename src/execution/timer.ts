@@ -0,0 +1,11 @@
+// setTimeout fires at once for delays beyond 2^31 - 1 ms (~24.8 days)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Run the callback at `dueAt` (epoch ms), or right away when that has passed. A due time
+ * beyond the timer limit fires at the limit instead, so callers must check whether the
+ * work is actually due and arm the timer again if not.
+ */
+export function setTimeoutAt(dueAt: number, callback: () => void): NodeJS.Timeout {
+    return setTimeout(callback, Math.min(Math.max(dueAt - Date.now(), 0), MAX_TIMEOUT_MS));
+}
@@ -0,0 +1,170 @@
+import { readFile } from 'fs/promises';
+import { GovernanceResult, TokenRatios } from '../typescript/governance.js';
+import { GovernanceRound } from '../typescript/round.js';
+import { RecordedVote } from '../typescript/state.js';
+import { VoteRejectionCode } from '../typescript/vote.js';
+import { ExportedTopicMessage, ExportedTopicMessageSchema } from '../typescript/topic-export.js';
+import { parseHCS2Vote } from './parse-vote.js';
+import { validateVote } from './vote-validation.js';
+import { tallyVotes, toTokenRatios } from './tally.js';
+import { reconcileRatios } from './reconcile.js';
+import { TokenRegistry } from './token-registry.js';
+import { RoundConfig, closeRound, createRound, hasReachedQuorum, isPastDeadline } from './round.js';
+import { ratioDifferences } from './contract-ratios.js';
+import { SnapshotEntry } from './snapshot-history.js';
+
+export interface RoundOutcome {
+    round: GovernanceRound;                  // Final status, or OPEN for the round still running at the end
+    votes: RecordedVote[];                   // Latest vote per voter
+    totalVotingPower: number;
+    rejections: Partial<Record<VoteRejectionCode, number>>;
+    tallyResult?: GovernanceResult;
+    winningRatios?: TokenRatios;
+}
+
+export interface SnapshotComparison {
+    snapshotId: string;
+    publishedAt: Date;
+    published: TokenRatios;
+    replayed?: TokenRatios;                  // Ratios of the last round the replay executed before the snapshot
+    differences: string[];                   // Empty when the replay reproduces the snapshot
+}
+
+/**
+ * Read a JSONL topic export, one message per line, sorted by sequence number.
+ */
+export async function readTopicExport(filePath: string): Promise<ExportedTopicMessage[]> {
+    const lines = (await readFile(filePath, 'utf8')).split('\n').filter(line => line.trim() !== '');
+    return lines
+        .map((line, index) => {
+            try {
+                return ExportedTopicMessageSchema.parse(JSON.parse(line));
+            } catch (error) {
+                throw new Error(`${filePath}:${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        })
+        .sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Replay exported voting topic messages through the vote parser, governance vote rules, round
+ * rules and tally, the way the agent would have processed them, with no network. Payer,
+ * signature and on-chain voting power checks need the network and are not applied, so
+ * self-reported voting power is trusted. Contract updates are assumed to succeed.
+ */
+export function backtestRounds(
+    messages: ExportedTopicMessage[],
+    config: RoundConfig,
+    registry: TokenRegistry,
+    startTime: Date = messages[0]?.timestamp ?? new Date()
+): RoundOutcome[] {
+    const outcomes: RoundOutcome[] = [];
+    let current: RoundOutcome = openRound(config, startTime);
+
+    const finish = (outcome: RoundOutcome, next: Date) => {
+        outcomes.push(outcome);
+        current = openRound(config, next);
+    };
+
+    for (const message of messages) {
+        // Rounds the deadline timer would have closed before this message arrived
+        while (isPastDeadline(current.round, message.timestamp)) {
+            const deadline = current.round.votingDeadline;
+            const reason = `Voting deadline passed with ${current.totalVotingPower}/${current.round.quorum.threshold} voting power`;
+            finish({ ...current, round: closeRound(current.round, 'EXPIRED', reason, deadline) }, deadline);
+        }
+
+        const parsed = parseHCS2Vote(message.content);
+        if (!parsed.success) {
+            reject(current, parsed.rejection.code);
+            continue;
+        }
+        // An export doesn't say which topic it came from, so t_id is not checked
+        const ruleRejection = validateVote(parsed.vote, parsed.hcs2Info, {
+            registry,
+            round: current.round,
+            consensusTimestamp: message.timestamp
+        });
+        if (ruleRejection) {
+            reject(current, ruleRejection.code);
+            continue;
+        }
+
+        // Latest vote per voter wins
+        const votes = current.votes.filter(recorded => recorded.vote.voterAccountId !== parsed.vote.voterAccountId);
+        votes.push({ vote: parsed.vote, sequenceNumber: message.sequence, consensusTimestamp: message.timestamp });
+        current = { ...current, votes, totalVotingPower: votes.reduce((sum, recorded) => sum + recorded.vote.votingPower, 0) };
+
+        if (hasReachedQuorum(current.round, current.totalVotingPower)) {
+            finish(tallyRound(current, registry, message.timestamp), message.timestamp);
+        }
+    }
+
+    outcomes.push(current);
+    return outcomes;
+}
+
+function openRound(config: RoundConfig, startTime: Date): RoundOutcome {
+    return { round: createRound(config, startTime), votes: [], totalVotingPower: 0, rejections: {} };
+}
+
+function reject(outcome: RoundOutcome, code: VoteRejectionCode): void {
+    outcome.rejections[code] = (outcome.rejections[code] ?? 0) + 1;
+}
+
+function tallyRound(outcome: RoundOutcome, registry: TokenRegistry, at: Date): RoundOutcome {
+    const { votes } = outcome;
+    const { tallyStrategy, reconciliationPolicy } = outcome.round;
+
+    const tally = tallyVotes(votes, tallyStrategy);
+    const reconciled = reconcileRatios(tally, votes, reconciliationPolicy, registry.symbols);
+    if (!reconciled.success) {
+        return {
+            ...outcome,
+            round: closeRound(outcome.round, 'FAILED', reconciled.reason, at),
+            tallyResult: { ...tally, reconciliation: reconciled.reconciliation }
+        };
+    }
+
+    const tallyResult = { ...tally, winningRatios: reconciled.ratios, reconciliation: reconciled.reconciliation };
+    let winningRatios: TokenRatios;
+    try {
+        winningRatios = toTokenRatios(tallyResult, registry);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { ...outcome, round: closeRound(outcome.round, 'FAILED', reason, at), tallyResult };
+    }
+
+    // The contract update rejects ratios the registry does not allow
+    const errors = registry.validateRatios(winningRatios);
+    if (errors.length > 0) {
+        return { ...outcome, round: closeRound(outcome.round, 'FAILED', errors.join('; '), at), tallyResult, winningRatios };
+    }
+
+    return { ...outcome, round: closeRound(outcome.round, 'EXECUTED', undefined, at), tallyResult, winningRatios };
+}
+
+/**
+ * Compare a replay with what actually happened: each valid published snapshot should carry
+ * the ratios of the last round the replay executed before the snapshot was published.
+ */
+export function compareWithSnapshots(outcomes: RoundOutcome[], snapshots: SnapshotEntry[]): SnapshotComparison[] {
+    const executed = outcomes.filter(outcome => outcome.round.status === 'EXECUTED' && outcome.round.closedAt);
+    return snapshots
+        .filter(entry => entry.snapshot && entry.issues.length === 0)
+        .map(entry => {
+            const snapshot = entry.snapshot!;
+            const replayed = [...executed].reverse()
+                .find(outcome => outcome.round.closedAt!.getTime() <= entry.timestamp.getTime())
+                ?.winningRatios;
+            return {
+                snapshotId: snapshot.snapshot_id,
+                publishedAt: entry.timestamp,
+                published: snapshot.token_weights,
+                replayed,
+                differences: replayed
+                    ? ratioDifferences(snapshot.token_weights, replayed)
+                    : ['The replay executed no round before this snapshot']
+            };
+        });
+}
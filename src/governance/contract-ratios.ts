@@ -0,0 +1,32 @@
+import { TokenRatios } from '../typescript/governance.js';
+import { ContractGateway } from '../transport/contract-gateway.js';
+import { TokenRegistry } from './token-registry.js';
+
+const QUERY_GAS = 100000;
+
+/**
+ * Read the ratios the contract currently holds with a ContractCallQuery to `functionName`,
+ * a view function returning one uint256 ratio per token in contract parameter order. The
+ * contract's documented interface has no such getter, so the name always comes from
+ * LYNX_RATIOS_FUNCTION.
+ */
+export async function readContractRatios(
+    gateway: ContractGateway,
+    contractId: string,
+    registry: TokenRegistry,
+    functionName: string
+): Promise<TokenRatios> {
+    const result = await gateway.call({ contractId, functionName, gas: QUERY_GAS });
+    return registry.fromContractResult(result);
+}
+
+/**
+ * Tokens whose ratio differs between the intended and actual allocation (empty when they
+ * match). Tokens missing on either side count as 0.
+ */
+export function ratioDifferences(expected: TokenRatios, actual: TokenRatios): string[] {
+    const tokens = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...tokens]
+        .filter(token => (expected[token] ?? 0) !== (actual[token] ?? 0))
+        .map(token => `${token} is ${actual[token] ?? 0}%, expected ${expected[token] ?? 0}%`);
+}
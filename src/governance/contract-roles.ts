@@ -0,0 +1,85 @@
+import { AccountId } from '@hashgraph/sdk';
+import { ContractRole } from '../typescript/governance.js';
+import { ContractGateway } from '../transport/contract-gateway.js';
+
+const QUERY_GAS = 100000;
+
+// `updateRatios(uint256 x6) external onlyGovernance`, as documented under "Contract Function"
+// in the README; LYNX_GOVERNANCE_UPDATE_FUNCTION overrides it for a contract that differs
+export const DEFAULT_GOVERNANCE_UPDATE_FUNCTION = 'updateRatios';
+
+// Getter returning the role's address, and the default update function the role may call
+export const CONTRACT_ROLES: Record<ContractRole, { getter: string; updateFunction: string }> = {
+    governance: { getter: 'GOVERNANCE', updateFunction: DEFAULT_GOVERNANCE_UPDATE_FUNCTION },
+    admin: { getter: 'ADMIN', updateFunction: 'adminUpdateRatios' }
+};
+
+/**
+ * The function a role updates the ratios through, with the governance path's name
+ * configurable for contracts that don't follow the documented signature.
+ */
+export function updateFunctionFor(role: ContractRole, governanceUpdateFunction: string = DEFAULT_GOVERNANCE_UPDATE_FUNCTION): string {
+    return role === 'governance' ? governanceUpdateFunction : CONTRACT_ROLES[role].updateFunction;
+}
+
+// Lowercase hex EVM addresses, without 0x
+export type RoleHolders = Record<ContractRole, string>;
+
+export function accountEvmAddress(accountId: string): string {
+    return AccountId.fromString(accountId).toSolidityAddress().toLowerCase();
+}
+
+/**
+ * An ABI-encoded address is the last 20 bytes of a 32 byte word. For a long-zero address this
+ * is the account the word read as a uint256 names (`0.0.<uint256>`), and unlike that number
+ * it also matches an account known by its EVM alias.
+ */
+export function decodeAddress(result: Uint8Array): string {
+    if (result.length < 32) {
+        throw new Error(`Expected an ABI-encoded address, got ${result.length} bytes`);
+    }
+    return Buffer.from(result.subarray(12, 32)).toString('hex');
+}
+
+/**
+ * A decoded address for logs, with its `0.0.<num>` account when it is a long-zero address.
+ */
+export function formatAddress(address: string): string {
+    // Long-zero addresses are a zero shard (4 bytes) and realm (8 bytes) followed by the account number
+    return /^0{24}/.test(address) ? `0x${address} (0.0.${BigInt(`0x${address.slice(24)}`)})` : `0x${address}`;
+}
+
+export async function readRoleHolders(gateway: ContractGateway, contractId: string): Promise<RoleHolders> {
+    const holders = {} as RoleHolders;
+    for (const [role, { getter }] of Object.entries(CONTRACT_ROLES) as [ContractRole, { getter: string }][]) {
+        holders[role] = decodeAddress(await gateway.call({ contractId, functionName: getter, gas: QUERY_GAS }));
+    }
+    return holders;
+}
+
+/**
+ * The role held by an account known by any of `addresses`. An account holding both
+ * updates through the governance path.
+ */
+export function roleFor(holders: RoleHolders, addresses: string[]): ContractRole | null {
+    const known = addresses.map(address => address.toLowerCase().replace(/^0x/, ''));
+    if (known.includes(holders.governance)) {
+        return 'governance';
+    }
+    if (known.includes(holders.admin)) {
+        return 'admin';
+    }
+    return null;
+}
+
+/**
+ * The account's EVM alias from a mirror node REST API, if it has one (e.g. ECDSA accounts).
+ */
+export async function fetchEvmAlias(mirrorNodeUrl: string, accountId: string): Promise<string | null> {
+    const response = await fetch(`${mirrorNodeUrl.replace(/\/$/, '')}/api/v1/accounts/${accountId}`);
+    if (!response.ok) {
+        throw new Error(`Mirror node returned ${response.status} for ${accountId}`);
+    }
+    const body = await response.json() as { evm_address?: string | null };
+    return body.evm_address ? body.evm_address.toLowerCase().replace(/^0x/, '') : null;
+}
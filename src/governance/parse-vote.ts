@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { HCS2MessageSchema } from '../typescript/hcs2.js';
+import { MultiRatioVote, MultiRatioVoteFieldsSchema, VoteRejection } from '../typescript/vote.js';
+
+export interface HCS2Info {
+    topicId: string;
+    operation: string;
+    memo?: string;
+}
+
+export type VoteParseResult =
+    | { success: true; vote: MultiRatioVote; hcs2Info: HCS2Info }
+    | { success: false; rejection: VoteRejection };
+
+/**
+ * Deterministically parse a raw HCS-2 topic message into a well-formed vote; validateVote
+ * then applies the governance rules. This is the only path that decides who voted and with what power - no LLM involved.
+ */
+export function parseHCS2Vote(rawMessage: string): VoteParseResult {
+    let messageContent: unknown;
+    try {
+        messageContent = JSON.parse(rawMessage);
+    } catch (jsonError) {
+        return reject('INVALID_JSON', 'Invalid JSON in raw message', rawMessage.substring(0, 100) + '...');
+    }
+
+    const hcs2Result = HCS2MessageSchema.safeParse(messageContent);
+    if (!hcs2Result.success) {
+        return reject('INVALID_HCS2_MESSAGE', 'Message is not a valid HCS-2 register message', hcs2Result.error.errors);
+    }
+    const hcs2Message = hcs2Result.data;
+
+    let voteData: unknown;
+    try {
+        voteData = JSON.parse(hcs2Message.metadata);
+    } catch (metadataError) {
+        return reject('INVALID_METADATA_JSON', 'Invalid JSON in metadata field', hcs2Message.metadata.substring(0, 100) + '...');
+    }
+
+    // Field shapes only: governance rules such as the ratio sum are checked by validateVote
+    // z.coerce.date() auto-converts timestamp strings
+    const voteResult = MultiRatioVoteFieldsSchema.safeParse(voteData);
+    if (!voteResult.success) {
+        return reject('INVALID_VOTE_SCHEMA', formatZodError(voteResult.error), voteResult.error.errors);
+    }
+
+    return {
+        success: true,
+        vote: voteResult.data,
+        hcs2Info: {
+            topicId: hcs2Message.t_id,
+            operation: hcs2Message.op,
+            memo: hcs2Message.m
+        }
+    };
+}
+
+function reject(code: VoteRejection['code'], reason: string, details?: unknown): VoteParseResult {
+    return { success: false, rejection: { code, reason, details } };
+}
+
+function formatZodError(error: z.ZodError): string {
+    return error.errors
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+}
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RatioPolicyConfig, RatioPolicyConfigSchema } from '../typescript/policy.js';
+import { TokenRegistry } from './token-registry.js';
+import { applyRatioPolicy, turnover, validateRatioPolicy } from './ratio-policy.js';
+
+const registry = new TokenRegistry([
+    { symbol: 'HBAR', tokenId: null, decimals: 8, contractParamIndex: 0, minRatio: 0, maxRatio: 100 },
+    { symbol: 'WBTC', tokenId: '0.0.1001', decimals: 8, contractParamIndex: 1, minRatio: 0, maxRatio: 60 },
+    { symbol: 'USDC', tokenId: '0.0.1002', decimals: 6, contractParamIndex: 2, minRatio: 0, maxRatio: 100 }
+]);
+
+const policy = (config: Partial<RatioPolicyConfig>): RatioPolicyConfig => RatioPolicyConfigSchema.parse(config);
+
+const previous = { HBAR: 40, WBTC: 30, USDC: 30 };
+
+describe('turnover', () => {
+    it('is half the sum of absolute changes', () => {
+        assert.equal(turnover(previous, { HBAR: 50, WBTC: 20, USDC: 30 }), 10);
+    });
+});
+
+describe('applyRatioPolicy', () => {
+    it('passes ratios within every guardrail', () => {
+        const outcome = applyRatioPolicy({ HBAR: 45, WBTC: 25, USDC: 30 }, previous, policy({ maxChangePerRound: 5 }), registry);
+        assert.equal(outcome.action, 'passed');
+        assert.deepEqual(outcome.ratios, { HBAR: 45, WBTC: 25, USDC: 30 });
+        assert.deepEqual(outcome.violations, []);
+    });
+
+    it('blocks violations by default', () => {
+        const outcome = applyRatioPolicy({ HBAR: 20, WBTC: 70, USDC: 10 }, previous, policy({ minAllocations: { USDC: 15 } }), registry);
+        assert.equal(outcome.action, 'blocked');
+        assert.equal(outcome.ratios, undefined);
+        assert.deepEqual(outcome.violations.map(violation => violation.rule), ['bounds', 'min_allocation']);
+    });
+
+    it('clamps to the nearest allocation that passes', () => {
+        const outcome = applyRatioPolicy(
+            { HBAR: 70, WBTC: 10, USDC: 20 },
+            previous,
+            policy({ onViolation: 'clamp', maxChangePerRound: 10 }),
+            registry
+        );
+        assert.equal(outcome.action, 'clamped');
+        assert.deepEqual(outcome.ratios, { HBAR: 50, WBTC: 20, USDC: 30 });
+        assert.deepEqual(outcome.requestedRatios, { HBAR: 70, WBTC: 10, USDC: 20 });
+    });
+
+    it('moves units back until turnover is within the limit', () => {
+        const outcome = applyRatioPolicy(
+            { HBAR: 70, WBTC: 10, USDC: 20 },
+            previous,
+            policy({ onViolation: 'clamp', maxTurnover: 10 }),
+            registry
+        );
+        assert.equal(outcome.action, 'clamped');
+        assert.equal(turnover(previous, outcome.ratios!), 10);
+        assert.equal(Object.values(outcome.ratios!).reduce((sum, ratio) => sum + ratio, 0), 100);
+    });
+
+    it('blocks when no allocation satisfies every guardrail', () => {
+        const outcome = applyRatioPolicy(
+            { HBAR: 70, WBTC: 10, USDC: 20 },
+            previous,
+            policy({ onViolation: 'clamp', bounds: { HBAR: { max: 20 } }, maxChangePerRound: 5 }),
+            registry
+        );
+        assert.equal(outcome.action, 'blocked');
+        assert.equal(outcome.reason, 'No allocation satisfies every guardrail');
+    });
+
+    it('skips change limits when the previous ratios are not a complete allocation', () => {
+        const outcome = applyRatioPolicy({ HBAR: 70, WBTC: 10, USDC: 20 }, { HBAR: 0, WBTC: 0, USDC: 0 }, policy({ maxChangePerRound: 5 }), registry);
+        assert.equal(outcome.action, 'passed');
+    });
+});
+
+describe('validateRatioPolicy', () => {
+    it('rejects unknown tokens and minimums above 100%', () => {
+        assert.throws(() => validateRatioPolicy(policy({ bounds: { DOGE: { max: 10 } } }), registry), /unknown tokens: DOGE/);
+        assert.throws(() => validateRatioPolicy(policy({ minAllocations: { HBAR: 60, USDC: 50 } }), registry), /add up to 110%/);
+    });
+});
@@ -0,0 +1,197 @@
+import { readFileSync } from 'fs';
+import { TokenRatios } from '../typescript/governance.js';
+import { PolicyOutcome, PolicyViolation, RatioPolicyConfig, RatioPolicyConfigSchema } from '../typescript/policy.js';
+import { TokenRegistry } from './token-registry.js';
+
+export const DEFAULT_RATIO_POLICY_FILE = 'config/policy.json';
+
+const TOTAL_RATIO = 100;
+
+interface RatioRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Half the sum of absolute changes: the share of the portfolio that moves between tokens.
+ */
+export function turnover(from: TokenRatios, to: TokenRatios): number {
+    const tokens = new Set([...Object.keys(from), ...Object.keys(to)]);
+    return [...tokens].reduce((sum, token) => sum + Math.abs((to[token] ?? 0) - (from[token] ?? 0)), 0) / 2;
+}
+
+// Registry bounds narrowed by the policy's bounds and required minimum allocations
+function allowedRange(symbol: string, policy: RatioPolicyConfig, registry: TokenRegistry): RatioRange {
+    const token = registry.get(symbol)!;
+    const bounds = policy.bounds[symbol] ?? {};
+    return {
+        min: Math.max(token.minRatio, bounds.min ?? 0, policy.minAllocations[symbol] ?? 0),
+        max: Math.min(token.maxRatio, bounds.max ?? TOTAL_RATIO)
+    };
+}
+
+function findViolations(
+    requested: TokenRatios,
+    baseline: TokenRatios | undefined,
+    policy: RatioPolicyConfig,
+    registry: TokenRegistry
+): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+
+    for (const token of registry.tokens) {
+        const symbol = token.symbol;
+        const ratio = requested[symbol] ?? 0;
+        const bounds = policy.bounds[symbol] ?? {};
+        const min = Math.max(token.minRatio, bounds.min ?? 0);
+        const max = Math.min(token.maxRatio, bounds.max ?? TOTAL_RATIO);
+        if (ratio < min || ratio > max) {
+            violations.push({ rule: 'bounds', token: symbol, message: `${symbol} ${ratio}% is outside ${min}-${max}%` });
+        }
+
+        const required = policy.minAllocations[symbol];
+        if (required !== undefined && ratio < required) {
+            violations.push({ rule: 'min_allocation', token: symbol, message: `${symbol} ${ratio}% is below the required ${required}%` });
+        }
+
+        if (baseline && policy.maxChangePerRound !== undefined) {
+            const change = Math.abs(ratio - baseline[symbol]);
+            if (change > policy.maxChangePerRound) {
+                violations.push({
+                    rule: 'max_change',
+                    token: symbol,
+                    message: `${symbol} moves ${change} points (${baseline[symbol]}% → ${ratio}%), more than ${policy.maxChangePerRound}`
+                });
+            }
+        }
+    }
+
+    if (baseline && policy.maxTurnover !== undefined) {
+        const moved = turnover(baseline, requested);
+        if (moved > policy.maxTurnover) {
+            violations.push({ rule: 'max_turnover', message: `Turnover ${moved}% exceeds ${policy.maxTurnover}%` });
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * The allocation closest to `requested` that passes every guardrail, or null when none
+ * exists. Units are moved one at a time so the result stays integer and sums to 100.
+ */
+function clampRatios(
+    requested: TokenRatios,
+    baseline: TokenRatios | undefined,
+    policy: RatioPolicyConfig,
+    registry: TokenRegistry
+): TokenRatios | null {
+    const symbols = registry.symbols;
+    const ranges: Record<string, RatioRange> = {};
+    for (const symbol of symbols) {
+        const range = allowedRange(symbol, policy, registry);
+        if (baseline && policy.maxChangePerRound !== undefined) {
+            range.min = Math.max(range.min, baseline[symbol] - policy.maxChangePerRound);
+            range.max = Math.min(range.max, baseline[symbol] + policy.maxChangePerRound);
+        }
+        ranges[symbol] = { min: Math.ceil(range.min), max: Math.floor(range.max) };
+    }
+
+    const ranged = Object.values(ranges);
+    if (ranged.some(range => range.min > range.max)
+        || ranged.reduce((sum, range) => sum + range.min, 0) > TOTAL_RATIO
+        || ranged.reduce((sum, range) => sum + range.max, 0) < TOTAL_RATIO) {
+        return null;
+    }
+
+    const ratios: TokenRatios = Object.fromEntries(symbols.map(symbol => {
+        const { min, max } = ranges[symbol];
+        return [symbol, Math.min(Math.max(requested[symbol] ?? 0, min), max)];
+    }));
+    const total = () => symbols.reduce((sum, symbol) => sum + ratios[symbol], 0);
+    // Largest score wins, registry order breaks ties
+    const pick = (candidates: string[], score: (symbol: string) => number) =>
+        candidates.reduce<string | undefined>((best, symbol) => best === undefined || score(symbol) > score(best) ? symbol : best, undefined);
+
+    // Restore the total, giving to (or taking from) the tokens furthest from their request
+    while (total() < TOTAL_RATIO) {
+        const symbol = pick(symbols.filter(s => ratios[s] < ranges[s].max), s => (requested[s] ?? 0) - ratios[s])!;
+        ratios[symbol] += 1;
+    }
+    while (total() > TOTAL_RATIO) {
+        const symbol = pick(symbols.filter(s => ratios[s] > ranges[s].min), s => ratios[s] - (requested[s] ?? 0))!;
+        ratios[symbol] -= 1;
+    }
+
+    // Move units back towards the previous allocation until turnover is within the limit
+    if (baseline && policy.maxTurnover !== undefined) {
+        while (turnover(baseline, ratios) > policy.maxTurnover) {
+            const from = pick(symbols.filter(s => ratios[s] > baseline[s] && ratios[s] > ranges[s].min), s => ratios[s] - baseline[s]);
+            const to = pick(symbols.filter(s => ratios[s] < baseline[s] && ratios[s] < ranges[s].max), s => baseline[s] - ratios[s]);
+            if (!from || !to) {
+                return null;
+            }
+            ratios[from] -= 1;
+            ratios[to] += 1;
+        }
+    }
+
+    return ratios;
+}
+
+/**
+ * Check reconciled winners against the guardrails before they reach the contract.
+ * Change and turnover limits are measured from `previous` (the on-chain ratios) and are
+ * skipped when it isn't a complete allocation, e.g. on a freshly deployed contract.
+ */
+export function applyRatioPolicy(
+    requested: TokenRatios,
+    previous: TokenRatios | undefined,
+    policy: RatioPolicyConfig,
+    registry: TokenRegistry
+): PolicyOutcome {
+    const baseline = previous && registry.symbols.reduce((sum, symbol) => sum + (previous[symbol] ?? 0), 0) === TOTAL_RATIO
+        ? previous
+        : undefined;
+    const violations = findViolations(requested, baseline, policy, registry);
+    const outcome = { violations, requestedRatios: requested, previousRatios: previous };
+
+    if (violations.length === 0) {
+        return { ...outcome, action: 'passed', ratios: requested };
+    }
+    if (policy.onViolation === 'block') {
+        return { ...outcome, action: 'blocked', reason: violations.map(violation => violation.message).join('; ') };
+    }
+
+    const clamped = clampRatios(requested, baseline, policy, registry);
+    if (!clamped) {
+        return { ...outcome, action: 'blocked', reason: 'No allocation satisfies every guardrail' };
+    }
+    return { ...outcome, action: 'clamped', ratios: clamped };
+}
+
+export function validateRatioPolicy(policy: RatioPolicyConfig, registry: TokenRegistry): void {
+    const symbols = [...Object.keys(policy.bounds), ...Object.keys(policy.minAllocations)];
+    const unknown = symbols.filter(symbol => !registry.has(symbol));
+    if (unknown.length > 0) {
+        throw new Error(`Ratio policy refers to unknown tokens: ${[...new Set(unknown)].join(', ')}`);
+    }
+    const required = Object.values(policy.minAllocations).reduce((sum, ratio) => sum + ratio, 0);
+    if (required > TOTAL_RATIO) {
+        throw new Error(`Ratio policy minimum allocations add up to ${required}%`);
+    }
+}
+
+export function loadRatioPolicy(
+    registry: TokenRegistry,
+    filePath: string = process.env.RATIO_POLICY_FILE || DEFAULT_RATIO_POLICY_FILE
+): RatioPolicyConfig {
+    let raw: string;
+    try {
+        raw = readFileSync(filePath, 'utf8');
+    } catch (error) {
+        throw new Error(`Could not read ratio policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const policy = RatioPolicyConfigSchema.parse(JSON.parse(raw));
+    validateRatioPolicy(policy, registry);
+    return policy;
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GovernanceResult } from '../typescript/governance.js';
+import { RecordedVote } from '../typescript/state.js';
+import { normalizeRatios, reconcileRatios } from './reconcile.js';
+
+const TOKENS = ['HBAR', 'WBTC', 'USDC'];
+
+function recorded(voterAccountId: string, votingPower: number, ratios: Record<string, number>, sequenceNumber: number): RecordedVote {
+    return {
+        vote: {
+            type: 'MULTI_RATIO_VOTE',
+            voterAccountId,
+            votingPower,
+            timestamp: new Date(0),
+            ratioChanges: Object.entries(ratios).map(([token, newRatio]) => ({ token, newRatio }))
+        },
+        sequenceNumber,
+        consensusTimestamp: new Date(sequenceNumber * 1000)
+    };
+}
+
+function result(winners: Record<string, number>): GovernanceResult {
+    return {
+        totalVotingPower: 1000,
+        voterCount: 2,
+        tallyStrategy: 'plurality',
+        tokenResults: Object.fromEntries(Object.entries(winners)
+            .map(([token, winningRatio]) => [token, { winningRatio, winningVotingPower: 500, totalOptions: 2 }]))
+    };
+}
+
+const votes = [
+    recorded('0.0.1', 600, { HBAR: 50, WBTC: 30, USDC: 20 }, 1),
+    recorded('0.0.2', 400, { HBAR: 20, WBTC: 30, USDC: 50 }, 2)
+];
+
+describe('normalizeRatios', () => {
+    it('rounds with the largest remainder so the ratios sum to 100', () => {
+        // Equal remainders go to the alphabetically first token
+        assert.deepEqual(normalizeRatios({ HBAR: 1, WBTC: 1, USDC: 1 }), { HBAR: 34, WBTC: 33, USDC: 33 });
+        assert.deepEqual(normalizeRatios({ HBAR: 50, WBTC: 30, USDC: 50 }), { HBAR: 39, WBTC: 23, USDC: 38 });
+    });
+
+    it('refuses ratios that sum to 0', () => {
+        assert.throws(() => normalizeRatios({ HBAR: 0, WBTC: 0 }), /sum to 0/);
+    });
+});
+
+describe('reconcileRatios', () => {
+    it('leaves a valid allocation unadjusted', () => {
+        const outcome = reconcileRatios(result({ HBAR: 50, WBTC: 30, USDC: 20 }), votes, 'fail', TOKENS);
+        assert.deepEqual(outcome, {
+            success: true,
+            ratios: { HBAR: 50, WBTC: 30, USDC: 20 },
+            reconciliation: { policy: 'fail', adjusted: false, originalTotal: 100 }
+        });
+    });
+
+    it('gives tokens nobody voted on 0', () => {
+        const outcome = reconcileRatios(result({ HBAR: 60, WBTC: 40 }), votes, 'fail', TOKENS);
+        assert.ok(outcome.success);
+        assert.equal(outcome.ratios.USDC, 0);
+    });
+
+    it('normalizes winners that miss 100', () => {
+        const outcome = reconcileRatios(result({ HBAR: 50, WBTC: 30, USDC: 50 }), votes, 'normalize', TOKENS);
+        assert.ok(outcome.success);
+        assert.deepEqual(outcome.ratios, { HBAR: 39, WBTC: 23, USDC: 38 });
+        assert.deepEqual(outcome.reconciliation, { policy: 'normalize', adjusted: true, originalTotal: 130 });
+    });
+
+    it('falls back to the whole allocation with the most power', () => {
+        const outcome = reconcileRatios(result({ HBAR: 50, WBTC: 30, USDC: 50 }), votes, 'best-allocation', TOKENS);
+        assert.ok(outcome.success);
+        assert.deepEqual(outcome.ratios, { HBAR: 50, WBTC: 30, USDC: 20 });
+    });
+
+    it('fails the round under the fail policy', () => {
+        const outcome = reconcileRatios(result({ HBAR: 50, WBTC: 30, USDC: 50 }), votes, 'fail', TOKENS);
+        assert.deepEqual(outcome, {
+            success: false,
+            reason: 'Winning ratios sum to 130%, not 100%',
+            reconciliation: { policy: 'fail', adjusted: true, originalTotal: 130 }
+        });
+    });
+
+    it('fails fractional winners that sum to 100', () => {
+        const outcome = reconcileRatios(result({ HBAR: 33.5, WBTC: 33.5, USDC: 33 }), votes, 'fail', TOKENS);
+        assert.equal(outcome.success, false);
+        assert.equal(!outcome.success && outcome.reason, 'Winning ratios are not whole percentages');
+    });
+});
@@ -0,0 +1,92 @@
+import { RecordedVote } from '../typescript/state.js';
+import { GovernanceResult, Reconciliation, ReconciliationPolicy } from '../typescript/governance.js';
+import { latestVotePerVoter } from './tally.js';
+import { wholeAllocationStrategy } from './tally-strategies.js';
+
+const TOTAL_RATIO = 100;
+
+export type ReconciliationOutcome =
+    | { success: true; ratios: Record<string, number>; reconciliation: Reconciliation }
+    | { success: false; reason: string; reconciliation: Reconciliation };
+
+function isValidAllocation(ratios: Record<string, number>): boolean {
+    const values = Object.values(ratios);
+    return values.every(Number.isInteger) && values.reduce((sum, ratio) => sum + ratio, 0) === TOTAL_RATIO;
+}
+
+/**
+ * Scale ratios proportionally to 100 and round to integers with the largest remainder
+ * method, so the rounded ratios still sum to exactly 100.
+ */
+export function normalizeRatios(ratios: Record<string, number>): Record<string, number> {
+    const total = Object.values(ratios).reduce((sum, ratio) => sum + ratio, 0);
+    if (total <= 0) {
+        throw new Error('Cannot normalize ratios that sum to 0');
+    }
+
+    const scaled = Object.entries(ratios).map(([token, ratio]) => {
+        const exact = ratio * TOTAL_RATIO / total;
+        return { token, floor: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+
+    // Hand out the units lost to flooring, largest remainder first (token order breaks ties)
+    let remaining = TOTAL_RATIO - scaled.reduce((sum, entry) => sum + entry.floor, 0);
+    const byRemainder = [...scaled].sort((a, b) => b.remainder - a.remainder || a.token.localeCompare(b.token));
+    for (const entry of byRemainder) {
+        if (remaining <= 0) break;
+        entry.floor += 1;
+        remaining -= 1;
+    }
+
+    return Object.fromEntries(scaled.map(entry => [entry.token, entry.floor]));
+}
+
+/**
+ * Per-token tallies are independent, so the winners rarely sum to 100. Turn them into a
+ * valid allocation over the governed tokens using the configured policy.
+ */
+export function reconcileRatios(
+    result: GovernanceResult,
+    votes: RecordedVote[],
+    policy: ReconciliationPolicy,
+    governedTokens: string[]
+): ReconciliationOutcome {
+    // Tokens nobody voted on get 0
+    const winners = Object.fromEntries(
+        governedTokens.map(token => [token, result.tokenResults[token]?.winningRatio ?? 0])
+    );
+    const originalTotal = Object.values(winners).reduce((sum, ratio) => sum + ratio, 0);
+
+    if (isValidAllocation(winners)) {
+        return { success: true, ratios: winners, reconciliation: { policy, adjusted: false, originalTotal } };
+    }
+
+    const reconciliation: Reconciliation = { policy, adjusted: true, originalTotal };
+    switch (policy) {
+        case 'normalize':
+            if (originalTotal <= 0) {
+                return { success: false, reason: 'Winning ratios sum to 0 and cannot be normalized', reconciliation };
+            }
+            return { success: true, ratios: normalizeRatios(winners), reconciliation };
+
+        case 'best-allocation': {
+            const best = wholeAllocationStrategy.tally(latestVotePerVoter(votes));
+            const ratios = Object.fromEntries(
+                governedTokens.map(token => [token, best[token]?.winningRatio ?? 0])
+            );
+            if (!isValidAllocation(ratios)) {
+                return { success: false, reason: 'Best whole allocation is not a valid integer allocation', reconciliation };
+            }
+            return { success: true, ratios, reconciliation };
+        }
+
+        case 'fail':
+            return {
+                success: false,
+                reason: Math.abs(originalTotal - TOTAL_RATIO) < 1e-9
+                    ? 'Winning ratios are not whole percentages'
+                    : `Winning ratios sum to ${Number(originalTotal.toFixed(2))}%, not ${TOTAL_RATIO}%`,
+                reconciliation
+            };
+    }
+}
@@ -0,0 +1,39 @@
+import { GovernanceRound, RoundStatus } from '../typescript/round.js';
+import { ReconciliationPolicy, TallyStrategyName } from '../typescript/governance.js';
+
+export interface RoundConfig {
+    quorumThreshold: number;
+    durationMs: number;
+    tallyStrategy: TallyStrategyName;
+    reconciliationPolicy: ReconciliationPolicy;
+}
+
+const FINAL_STATUSES: RoundStatus[] = ['EXECUTED', 'FAILED', 'EXPIRED', 'VETOED', 'REPLAYED'];
+
+export function createRound(config: RoundConfig, startTime: Date = new Date()): GovernanceRound {
+    return {
+        id: `round_${startTime.getTime()}`,
+        startTime,
+        votingDeadline: new Date(startTime.getTime() + config.durationMs),
+        quorum: { threshold: config.quorumThreshold },
+        tallyStrategy: config.tallyStrategy,
+        reconciliationPolicy: config.reconciliationPolicy,
+        status: 'OPEN'
+    };
+}
+
+export function hasReachedQuorum(round: GovernanceRound, totalVotingPower: number): boolean {
+    return totalVotingPower >= round.quorum.threshold;
+}
+
+export function isPastDeadline(round: GovernanceRound, at: Date): boolean {
+    return at.getTime() >= round.votingDeadline.getTime();
+}
+
+export function isFinal(round: GovernanceRound): boolean {
+    return FINAL_STATUSES.includes(round.status);
+}
+
+export function closeRound(round: GovernanceRound, status: RoundStatus, failureReason?: string, closedAt: Date = new Date()): GovernanceRound {
+    return { ...round, status, closedAt, failureReason };
+}
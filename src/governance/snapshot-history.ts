@@ -0,0 +1,101 @@
+import { PublicKey } from '@hashgraph/sdk';
+import { ExportedTopicMessage } from '../typescript/topic-export.js';
+import { TokenRatioSnapshotData, TokenRatioSnapshotDataSchema } from '../typescript/snapshot.js';
+import { AccountKeyResolver } from './vote-auth.js';
+import { tokenWeightsHash, verifySnapshotSignature } from './snapshot-provenance.js';
+
+/**
+ * One message of the snapshot topic. `snapshot` is set when the metadata matches the
+ * schema; `issues` lists everything that failed to check out.
+ */
+export interface SnapshotEntry {
+    sequence: number;
+    timestamp: Date;
+    snapshot?: TokenRatioSnapshotData;
+    issues: string[];
+}
+
+/**
+ * Check a snapshot topic message: the HCS-2 envelope, the metadata against the schema, the
+ * integrity hash, and the signature against the key of `created_by` when a resolver is given.
+ */
+export async function readSnapshotEntry(message: ExportedTopicMessage, keyResolver?: AccountKeyResolver): Promise<SnapshotEntry> {
+    const entry: SnapshotEntry = { sequence: message.sequence, timestamp: message.timestamp, issues: [] };
+
+    let metadata: unknown;
+    try {
+        const envelope = JSON.parse(message.content);
+        if (envelope.p !== 'hcs-2' || typeof envelope.metadata !== 'string') {
+            entry.issues.push('Not an HCS-2 message with metadata');
+            return entry;
+        }
+        metadata = JSON.parse(envelope.metadata);
+    } catch {
+        entry.issues.push('Invalid JSON');
+        return entry;
+    }
+
+    const parsed = TokenRatioSnapshotDataSchema.safeParse(metadata);
+    if (!parsed.success) {
+        entry.issues.push(...parsed.error.issues.map(issue => `${issue.path.join('.') || 'snapshot'}: ${issue.message}`));
+        return entry;
+    }
+    const snapshot = parsed.data;
+    entry.snapshot = snapshot;
+
+    const hash = tokenWeightsHash(snapshot.token_weights);
+    if (hash !== snapshot.hash) {
+        entry.issues.push(`Hash mismatch: token_weights hash to ${hash}, snapshot says ${snapshot.hash}`);
+    }
+
+    let creatorKey: PublicKey | undefined;
+    if (keyResolver) {
+        try {
+            creatorKey = await keyResolver.getPublicKey(snapshot.created_by) ?? undefined;
+            if (!creatorKey) {
+                entry.issues.push(`${snapshot.created_by} has no single public key to verify against`);
+            }
+        } catch (error) {
+            entry.issues.push(`Key of ${snapshot.created_by} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    const signatureError = verifySnapshotSignature(snapshot, creatorKey);
+    if (signatureError) {
+        entry.issues.push(signatureError);
+    }
+
+    return entry;
+}
+
+export async function readSnapshotHistory(messages: ExportedTopicMessage[], keyResolver?: AccountKeyResolver): Promise<SnapshotEntry[]> {
+    // Snapshots are usually all created by the operator, so look each account up once
+    const keys = new Map<string, Promise<PublicKey | null>>();
+    const cachedResolver: AccountKeyResolver | undefined = keyResolver && {
+        getPublicKey: accountId => {
+            if (!keys.has(accountId)) keys.set(accountId, keyResolver.getPublicKey(accountId));
+            return keys.get(accountId)!;
+        }
+    };
+
+    const entries: SnapshotEntry[] = [];
+    for (const message of [...messages].sort((a, b) => a.sequence - b.sequence)) {
+        entries.push(await readSnapshotEntry(message, cachedResolver));
+    }
+    return entries;
+}
+
+/**
+ * How the token weights moved from one snapshot to the next, e.g. `HBAR 50% → 40% (-10)`.
+ * Tokens missing on either side count as 0.
+ */
+export function weightChanges(previous: Record<string, number>, current: Record<string, number>): string[] {
+    const tokens = [...new Set([...Object.keys(previous), ...Object.keys(current)])];
+    return tokens
+        .filter(token => (previous[token] ?? 0) !== (current[token] ?? 0))
+        .map(token => {
+            const before = previous[token] ?? 0;
+            const after = current[token] ?? 0;
+            const delta = after - before;
+            return `${token} ${before}% → ${after}% (${delta > 0 ? '+' : ''}${delta})`;
+        });
+}
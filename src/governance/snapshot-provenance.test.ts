@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { PrivateKey } from '@hashgraph/sdk';
+import { RecordedVote } from '../typescript/state.js';
+import { TokenRatioSnapshotData, TokenRatioSnapshotDataSchema } from '../typescript/snapshot.js';
+import { signSnapshot, tokenWeightsHash, verifySnapshotSignature, voteLeafHash, votesMerkleRoot } from './snapshot-provenance.js';
+
+function recorded(voterAccountId: string, sequenceNumber: number): RecordedVote {
+    return {
+        vote: {
+            type: 'MULTI_RATIO_VOTE',
+            voterAccountId,
+            votingPower: 100 * sequenceNumber,
+            timestamp: new Date(0),
+            ratioChanges: [{ token: 'HBAR', newRatio: 60 }, { token: 'USDC', newRatio: 40 }]
+        },
+        sequenceNumber,
+        consensusTimestamp: new Date(sequenceNumber * 1000)
+    };
+}
+
+const node = (left: string, right: string) =>
+    createHash('sha256').update(Buffer.from([1])).update(Buffer.from(left, 'hex')).update(Buffer.from(right, 'hex')).digest('hex');
+
+function unsignedSnapshot(): Omit<TokenRatioSnapshotData, 'signature'> {
+    const tokenWeights = { HBAR: 60, USDC: 40 };
+    return {
+        snapshot_id: 'snapshot_round_1',
+        snapshot_type: 'token_ratios',
+        governance_session: 'round_1',
+        round_id: 'round_1',
+        token_weights: tokenWeights,
+        timestamp: new Date('2026-01-01T00:00:00Z'),
+        created_by: '0.0.9000',
+        hash: tokenWeightsHash(tokenWeights),
+        quorum_reached: true,
+        quorum_threshold: 100,
+        total_voting_power: 300,
+        voter_count: 2,
+        votes_merkle_root: votesMerkleRoot([recorded('0.0.1', 1), recorded('0.0.2', 2)]),
+        tally_strategy: 'plurality'
+    };
+}
+
+describe('votesMerkleRoot', () => {
+    const [a, b, c] = [recorded('0.0.1', 1), recorded('0.0.2', 2), recorded('0.0.3', 3)];
+
+    it('pairs leaves in sequence number order and carries an odd node up', () => {
+        const expected = node(node(voteLeafHash(a), voteLeafHash(b)), voteLeafHash(c));
+        assert.equal(votesMerkleRoot([c, a, b]), expected);
+    });
+
+    it('is the leaf hash for a single vote, and fixed for none', () => {
+        assert.equal(votesMerkleRoot([a]), voteLeafHash(a));
+        assert.equal(votesMerkleRoot([]), createHash('sha256').update(Buffer.from([0])).digest('hex'));
+    });
+
+    it('changes with any counted field', () => {
+        const clamped = { ...a, vote: { ...a.vote, votingPower: 50 } };
+        assert.notEqual(votesMerkleRoot([clamped, b]), votesMerkleRoot([a, b]));
+    });
+});
+
+describe('tokenWeightsHash', () => {
+    it('does not depend on key order', () => {
+        assert.equal(tokenWeightsHash({ HBAR: 60, USDC: 40 }), tokenWeightsHash({ USDC: 40, HBAR: 60 }));
+    });
+});
+
+describe('snapshot signatures', () => {
+    const key = PrivateKey.generateED25519();
+
+    it('verify after a round trip through JSON', () => {
+        const signed = signSnapshot(unsignedSnapshot(), key);
+        const published = TokenRatioSnapshotDataSchema.parse(JSON.parse(JSON.stringify(signed)));
+        assert.equal(verifySnapshotSignature(published), null);
+        assert.equal(verifySnapshotSignature(published, key.publicKey), null);
+    });
+
+    it('verify with ECDSA keys', () => {
+        const ecdsa = PrivateKey.generateECDSA();
+        const signed = signSnapshot(unsignedSnapshot(), ecdsa);
+        assert.equal(signed.signature.algorithm, 'ECDSA_SECP256K1');
+        assert.equal(verifySnapshotSignature(signed), null);
+    });
+
+    it('fail when the snapshot was changed', () => {
+        const signed = signSnapshot(unsignedSnapshot(), key);
+        const tampered = { ...signed, token_weights: { HBAR: 70, USDC: 30 } };
+        assert.equal(verifySnapshotSignature(tampered), 'Signature does not match the snapshot payload');
+    });
+
+    it('fail when signed by a key other than the creator\'s', () => {
+        const signed = signSnapshot(unsignedSnapshot(), key);
+        assert.match(verifySnapshotSignature(signed, PrivateKey.generateED25519().publicKey) ?? '', /not the key of 0\.0\.9000/);
+    });
+});
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { RecordedVote } from '../typescript/state.js';
+import { SnapshotSignature, TokenRatioSnapshotData } from '../typescript/snapshot.js';
+
+// Domain prefixes keep a leaf from ever hashing the same as an inner node
+const LEAF_PREFIX = Buffer.from([0]);
+const NODE_PREFIX = Buffer.from([1]);
+
+function sha256(...parts: Buffer[]): Buffer {
+    const hash = createHash('sha256');
+    parts.forEach(part => hash.update(part));
+    return hash.digest();
+}
+
+// The snapshot's integrity `hash`: the token weights serialized with sorted keys
+export function tokenWeightsHash(tokenWeights: Record<string, number>): string {
+    const weightsString = JSON.stringify(tokenWeights, Object.keys(tokenWeights).sort());
+    return createHash('sha256').update(weightsString).digest('hex');
+}
+
+/**
+ * The exact bytes a vote contributes as a Merkle leaf: the vote as it was counted,
+ * with the verified voting power, in a fixed field order.
+ */
+export function voteLeafPayload(recorded: RecordedVote): Uint8Array {
+    const payload = {
+        sequenceNumber: recorded.sequenceNumber,
+        consensusTimestamp: recorded.consensusTimestamp.toISOString(),
+        voterAccountId: recorded.vote.voterAccountId,
+        votingPower: recorded.vote.votingPower,
+        ratioChanges: recorded.vote.ratioChanges.map(change => ({ token: change.token, newRatio: change.newRatio }))
+    };
+    return Buffer.from(JSON.stringify(payload), 'utf8');
+}
+
+export function voteLeafHash(recorded: RecordedVote): string {
+    return sha256(LEAF_PREFIX, Buffer.from(voteLeafPayload(recorded))).toString('hex');
+}
+
+/**
+ * Merkle root over the accepted votes ordered by HCS sequence number. An odd node is
+ * carried up unpaired; no votes hash to the root of an empty leaf.
+ */
+export function votesMerkleRoot(votes: RecordedVote[]): string {
+    let level: Buffer[] = [...votes]
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+        .map(vote => Buffer.from(voteLeafHash(vote), 'hex'));
+    if (level.length === 0) {
+        return sha256(LEAF_PREFIX).toString('hex');
+    }
+
+    while (level.length > 1) {
+        const next: Buffer[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? sha256(NODE_PREFIX, level[i], level[i + 1]) : level[i]);
+        }
+        level = next;
+    }
+    return level[0].toString('hex');
+}
+
+// Recursively sorted keys, ISO dates and no undefined fields, so any reader re-serializes identically
+function canonicalize(value: unknown): unknown {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(canonicalize);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => [key, canonicalize((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+}
+
+/**
+ * The exact bytes the operator signs: the canonical JSON of the snapshot without its
+ * `signature` field.
+ */
+export function snapshotSigningPayload(snapshot: Omit<TokenRatioSnapshotData, 'signature'>): Uint8Array {
+    const { signature: _signature, ...unsigned } = snapshot as TokenRatioSnapshotData;
+    return Buffer.from(JSON.stringify(canonicalize(unsigned)), 'utf8');
+}
+
+export function signSnapshot(snapshot: Omit<TokenRatioSnapshotData, 'signature'>, key: PrivateKey): TokenRatioSnapshotData {
+    const signature: SnapshotSignature = {
+        algorithm: key.type === 'ED25519' ? 'ED25519' : 'ECDSA_SECP256K1',
+        public_key: key.publicKey.toStringRaw(),
+        value: Buffer.from(key.sign(snapshotSigningPayload(snapshot))).toString('hex')
+    };
+    return { ...snapshot, signature };
+}
+
+/**
+ * Check the snapshot's signature. Pass the public key of `created_by` (e.g. from a mirror
+ * node) to also check that the embedded key belongs to the creator. Returns the reason it
+ * doesn't verify, or null when it does.
+ */
+export function verifySnapshotSignature(snapshot: TokenRatioSnapshotData, creatorKey?: PublicKey): string | null {
+    const { signature } = snapshot;
+    let publicKey: PublicKey;
+    try {
+        publicKey = signature.algorithm === 'ED25519'
+            ? PublicKey.fromStringED25519(signature.public_key)
+            : PublicKey.fromStringECDSA(signature.public_key);
+    } catch (error) {
+        return `Invalid public key: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    if (creatorKey && creatorKey.toStringRaw() !== publicKey.toStringRaw()) {
+        return `Snapshot was signed by ${signature.public_key}, not the key of ${snapshot.created_by}`;
+    }
+    if (!publicKey.verify(snapshotSigningPayload(snapshot), Buffer.from(signature.value, 'hex'))) {
+        return 'Signature does not match the snapshot payload';
+    }
+    return null;
+}
@@ -0,0 +1,148 @@
+import { MultiRatioVote } from '../typescript/vote.js';
+import { TallyStrategyName, TokenResult } from '../typescript/governance.js';
+
+/**
+ * Turns the final (latest per voter) votes into a result per token.
+ */
+export interface TallyStrategy {
+    name: TallyStrategyName;
+    tally(votes: MultiRatioVote[]): Record<string, TokenResult>;
+}
+
+// (ratio, weight) pairs per token
+function collectRatios(votes: MultiRatioVote[], weight: (vote: MultiRatioVote) => number): Map<string, [number, number][]> {
+    const byToken = new Map<string, [number, number][]>();
+    for (const vote of votes) {
+        for (const ratioChange of vote.ratioChanges) {
+            const entries = byToken.get(ratioChange.token) ?? [];
+            entries.push([ratioChange.newRatio, weight(vote)]);
+            byToken.set(ratioChange.token, entries);
+        }
+    }
+    return byToken;
+}
+
+function pluralityBy(weight: (vote: MultiRatioVote) => number) {
+    return (votes: MultiRatioVote[]): Record<string, TokenResult> => {
+        const results: Record<string, TokenResult> = {};
+        for (const [token, entries] of collectRatios(votes, weight)) {
+            const ratios = new Map<number, number>();
+            for (const [ratio, power] of entries) {
+                ratios.set(ratio, (ratios.get(ratio) ?? 0) + power);
+            }
+
+            // Ties go to the lowest ratio so the result is order independent
+            let winningRatio = 0;
+            let winningPower = 0;
+            for (const [ratio, power] of [...ratios].sort(([a], [b]) => a - b)) {
+                if (power > winningPower) {
+                    winningRatio = ratio;
+                    winningPower = power;
+                }
+            }
+
+            results[token] = { winningRatio, winningVotingPower: winningPower, totalOptions: ratios.size };
+        }
+        return results;
+    };
+}
+
+export const pluralityStrategy: TallyStrategy = {
+    name: 'plurality',
+    tally: pluralityBy(vote => vote.votingPower)
+};
+
+export const quadraticStrategy: TallyStrategy = {
+    name: 'quadratic',
+    tally: pluralityBy(vote => Math.sqrt(vote.votingPower))
+};
+
+export const weightedMeanStrategy: TallyStrategy = {
+    name: 'weighted-mean',
+    tally(votes) {
+        const results: Record<string, TokenResult> = {};
+        for (const [token, entries] of collectRatios(votes, vote => vote.votingPower)) {
+            const totalPower = entries.reduce((sum, [, power]) => sum + power, 0);
+            const weightedSum = entries.reduce((sum, [ratio, power]) => sum + ratio * power, 0);
+            results[token] = {
+                winningRatio: totalPower > 0 ? weightedSum / totalPower : 0,
+                winningVotingPower: totalPower,
+                totalOptions: new Set(entries.map(([ratio]) => ratio)).size
+            };
+        }
+        return results;
+    }
+};
+
+export const weightedMedianStrategy: TallyStrategy = {
+    name: 'weighted-median',
+    tally(votes) {
+        const results: Record<string, TokenResult> = {};
+        for (const [token, entries] of collectRatios(votes, vote => vote.votingPower)) {
+            const sorted = [...entries].sort(([a], [b]) => a - b);
+            const totalPower = sorted.reduce((sum, [, power]) => sum + power, 0);
+
+            // Lower weighted median: first ratio where cumulative power reaches half
+            let cumulative = 0;
+            let median = sorted.length > 0 ? sorted[sorted.length - 1][0] : 0;
+            for (const [ratio, power] of sorted) {
+                cumulative += power;
+                if (cumulative >= totalPower / 2) {
+                    median = ratio;
+                    break;
+                }
+            }
+
+            results[token] = {
+                winningRatio: median,
+                winningVotingPower: totalPower,
+                totalOptions: new Set(entries.map(([ratio]) => ratio)).size
+            };
+        }
+        return results;
+    }
+};
+
+export function allocationKey(vote: MultiRatioVote): string {
+    return [...vote.ratioChanges]
+        .sort((a, b) => a.token.localeCompare(b.token))
+        .map(change => `${change.token}:${change.newRatio}`)
+        .join(',');
+}
+
+export const wholeAllocationStrategy: TallyStrategy = {
+    name: 'whole-allocation',
+    tally(votes) {
+        const allocations = new Map<string, { vote: MultiRatioVote; power: number }>();
+        for (const vote of votes) {
+            const key = allocationKey(vote);
+            const existing = allocations.get(key);
+            allocations.set(key, { vote: existing?.vote ?? vote, power: (existing?.power ?? 0) + vote.votingPower });
+        }
+
+        // Ties go to the lexicographically smallest allocation so the result is order independent
+        const [winner] = [...allocations.entries()]
+            .sort(([keyA, a], [keyB, b]) => b.power - a.power || keyA.localeCompare(keyB));
+        if (!winner) {
+            return {};
+        }
+
+        const results: Record<string, TokenResult> = {};
+        for (const ratioChange of winner[1].vote.ratioChanges) {
+            results[ratioChange.token] = {
+                winningRatio: ratioChange.newRatio,
+                winningVotingPower: winner[1].power,
+                totalOptions: allocations.size
+            };
+        }
+        return results;
+    }
+};
+
+export const TALLY_STRATEGIES: Record<TallyStrategyName, TallyStrategy> = {
+    'plurality': pluralityStrategy,
+    'weighted-mean': weightedMeanStrategy,
+    'weighted-median': weightedMedianStrategy,
+    'quadratic': quadraticStrategy,
+    'whole-allocation': wholeAllocationStrategy
+};
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecordedVote } from '../typescript/state.js';
+import { latestVotePerVoter, tallyVotes } from './tally.js';
+
+function recorded(voterAccountId: string, votingPower: number, ratios: Record<string, number>, sequenceNumber: number): RecordedVote {
+    return {
+        vote: {
+            type: 'MULTI_RATIO_VOTE',
+            voterAccountId,
+            votingPower,
+            timestamp: new Date(0),
+            ratioChanges: Object.entries(ratios).map(([token, newRatio]) => ({ token, newRatio }))
+        },
+        sequenceNumber,
+        consensusTimestamp: new Date(sequenceNumber * 1000)
+    };
+}
+
+const winners = (votes: RecordedVote[], strategy: Parameters<typeof tallyVotes>[1]) =>
+    Object.fromEntries(Object.entries(tallyVotes(votes, strategy).tokenResults).map(([token, result]) => [token, result.winningRatio]));
+
+describe('latestVotePerVoter', () => {
+    it('keeps the vote with the highest sequence number, whatever its timestamp', () => {
+        const earlier = recorded('0.0.1', 100, { HBAR: 60, USDC: 40 }, 5);
+        const later = recorded('0.0.1', 100, { HBAR: 40, USDC: 60 }, 2);
+        later.vote.timestamp = new Date(10_000);
+
+        assert.deepEqual(latestVotePerVoter([earlier, later]), [earlier.vote]);
+    });
+});
+
+describe('tallyVotes', () => {
+    const votes = [
+        recorded('0.0.1', 400, { HBAR: 60, USDC: 40 }, 1),
+        recorded('0.0.2', 300, { HBAR: 40, USDC: 60 }, 2),
+        recorded('0.0.3', 300, { HBAR: 40, USDC: 60 }, 3)
+    ];
+
+    it('counts each voter once', () => {
+        const result = tallyVotes([...votes, recorded('0.0.1', 400, { HBAR: 40, USDC: 60 }, 4)]);
+        assert.equal(result.voterCount, 3);
+        assert.equal(result.totalVotingPower, 1000);
+        assert.deepEqual(result.tokenResults.HBAR, { winningRatio: 40, winningVotingPower: 1000, totalOptions: 1 });
+    });
+
+    it('gives plurality to the ratio with the most power', () => {
+        assert.deepEqual(winners(votes, 'plurality'), { HBAR: 40, USDC: 60 });
+    });
+
+    it('breaks plurality ties towards the lowest ratio', () => {
+        const tied = [recorded('0.0.1', 500, { HBAR: 60, USDC: 40 }, 1), recorded('0.0.2', 500, { HBAR: 40, USDC: 60 }, 2)];
+        assert.deepEqual(winners(tied, 'plurality'), { HBAR: 40, USDC: 40 });
+    });
+
+    it('weighs quadratic votes by the square root of their power', () => {
+        const whale = [
+            recorded('0.0.1', 900, { HBAR: 60, USDC: 40 }, 1),
+            recorded('0.0.2', 100, { HBAR: 40, USDC: 60 }, 2),
+            recorded('0.0.3', 100, { HBAR: 40, USDC: 60 }, 3)
+        ];
+        assert.deepEqual(winners(whale, 'plurality'), { HBAR: 60, USDC: 40 });
+        assert.deepEqual(winners(whale, 'quadratic'), { HBAR: 60, USDC: 40 });
+        whale.push(recorded('0.0.4', 100, { HBAR: 40, USDC: 60 }, 4), recorded('0.0.5', 100, { HBAR: 40, USDC: 60 }, 5));
+        assert.deepEqual(winners(whale, 'plurality'), { HBAR: 60, USDC: 40 });
+        assert.deepEqual(winners(whale, 'quadratic'), { HBAR: 40, USDC: 60 });
+    });
+
+    it('averages ratios by power with weighted-mean', () => {
+        assert.deepEqual(winners(votes, 'weighted-mean'), { HBAR: 48, USDC: 52 });
+    });
+
+    it('takes the lower weighted median of each token', () => {
+        const spread = [
+            recorded('0.0.1', 300, { HBAR: 10, USDC: 90 }, 1),
+            recorded('0.0.2', 200, { HBAR: 50, USDC: 50 }, 2),
+            recorded('0.0.3', 500, { HBAR: 90, USDC: 10 }, 3)
+        ];
+        // Per-token medians need not sum to 100; reconciliation fixes that
+        assert.deepEqual(winners(spread, 'weighted-median'), { HBAR: 50, USDC: 10 });
+    });
+
+    it('picks the whole allocation with the most power', () => {
+        const result = tallyVotes(votes, 'whole-allocation');
+        assert.deepEqual(result.tokenResults.HBAR, { winningRatio: 40, winningVotingPower: 600, totalOptions: 2 });
+        assert.equal(result.tokenResults.USDC.winningRatio, 60);
+    });
+});
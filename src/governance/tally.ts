@@ -0,0 +1,52 @@
+import { MultiRatioVote } from '../typescript/vote.js';
+import { RecordedVote } from '../typescript/state.js';
+import { GovernanceResult, TallyStrategyName, TokenRatios } from '../typescript/governance.js';
+import { TALLY_STRATEGIES } from './tally-strategies.js';
+import { TokenRegistry } from './token-registry.js';
+
+/**
+ * Keep only the latest vote per voter, by HCS sequence number. The vote's own timestamp
+ * is set by the voter, so it never decides which vote counts.
+ */
+export function latestVotePerVoter(votes: RecordedVote[]): MultiRatioVote[] {
+    const voterMap = new Map<string, RecordedVote>();
+    for (const recorded of votes) {
+        const existing = voterMap.get(recorded.vote.voterAccountId);
+        if (!existing || recorded.sequenceNumber > existing.sequenceNumber) {
+            voterMap.set(recorded.vote.voterAccountId, recorded);
+        }
+    }
+    return Array.from(voterMap.values(), recorded => recorded.vote);
+}
+
+/**
+ * Tally the latest vote per voter with the given strategy (per-token plurality by default).
+ */
+export function tallyVotes(votes: RecordedVote[], strategy: TallyStrategyName = 'plurality'): GovernanceResult {
+    const finalVotes = latestVotePerVoter(votes);
+    const totalVotingPower = finalVotes.reduce((sum, vote) => sum + vote.votingPower, 0);
+
+    return {
+        totalVotingPower,
+        voterCount: finalVotes.length,
+        tallyStrategy: strategy,
+        tokenResults: TALLY_STRATEGIES[strategy].tally(finalVotes)
+    };
+}
+
+/**
+ * Map a tally result onto the ratios of every registry token, preferring the reconciled
+ * winning ratios. Throws when a governed token has no ratio, since the contract needs
+ * every ratio.
+ */
+export function toTokenRatios(result: GovernanceResult, registry: TokenRegistry): TokenRatios {
+    const ratios: TokenRatios = {};
+    for (const token of registry.symbols) {
+        const ratio = result.winningRatios?.[token] ?? result.tokenResults[token]?.winningRatio;
+        if (ratio === undefined) {
+            throw new Error(`No winning ratio for ${token}`);
+        }
+        ratios[token] = ratio;
+    }
+    return ratios;
+}
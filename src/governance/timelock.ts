@@ -0,0 +1,89 @@
+import { PendingExecution, VetoMessage, VetoMessageSchema } from '../typescript/timelock.js';
+import { AccountKeyResolver } from './vote-auth.js';
+
+// Vetoes are read from a different topic than votes, so give them time to arrive
+export const DEFAULT_VETO_GRACE_MS = 30_000;
+
+export interface TimelockConfig {
+    delayMs: number;
+    guardians: string[];
+    controlTopicId: string;
+    // How long after the ETA to wait for vetoes that reached consensus before it
+    graceMs?: number;
+}
+
+/**
+ * The exact bytes a guardian signs for a veto: the veto fields in a fixed order.
+ */
+export function vetoSigningPayload(veto: Omit<VetoMessage, 'signature'>): Uint8Array {
+    const payload = {
+        type: veto.type,
+        roundId: veto.roundId,
+        guardianAccountId: veto.guardianAccountId,
+        reason: veto.reason
+    };
+    return Buffer.from(JSON.stringify(payload), 'utf8');
+}
+
+/**
+ * Control topic messages that aren't vetoes (e.g. the agent's own pending execution
+ * records) parse to null.
+ */
+export function parseVetoMessage(raw: string): VetoMessage | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    const parsed = VetoMessageSchema.safeParse(data);
+    return parsed.success ? parsed.data : null;
+}
+
+export function isTimelockElapsed(pending: PendingExecution, at: Date, graceMs: number = DEFAULT_VETO_GRACE_MS): boolean {
+    return at.getTime() >= pending.eta.getTime() + graceMs;
+}
+
+/**
+ * Check a veto against the pending execution: it must target the pending round, reach
+ * consensus before the ETA, be submitted by a configured guardian and be signed by that
+ * guardian's key. Returns the reason it doesn't count, or null when it does.
+ */
+export async function authenticateVeto(
+    veto: VetoMessage,
+    payerAccountId: string | null,
+    consensusTimestamp: Date,
+    pending: PendingExecution,
+    config: TimelockConfig,
+    keyResolver?: AccountKeyResolver
+): Promise<string | null> {
+    if (veto.roundId !== pending.roundId) {
+        return `Veto targets round ${veto.roundId}, pending execution is for ${pending.roundId}`;
+    }
+    if (consensusTimestamp.getTime() > pending.eta.getTime()) {
+        return `Veto reached consensus at ${consensusTimestamp.toISOString()}, after the ETA ${pending.eta.toISOString()}`;
+    }
+    if (!config.guardians.includes(veto.guardianAccountId)) {
+        return `${veto.guardianAccountId} is not a guardian`;
+    }
+    if (payerAccountId !== veto.guardianAccountId) {
+        return `Veto for ${veto.guardianAccountId} was submitted by ${payerAccountId ?? 'an unknown payer'}`;
+    }
+    if (!keyResolver) {
+        return 'No account key resolver configured to verify the signature';
+    }
+
+    try {
+        const publicKey = await keyResolver.getPublicKey(veto.guardianAccountId);
+        if (!publicKey) {
+            return `${veto.guardianAccountId} has no single public key to verify against`;
+        }
+        if (!publicKey.verify(vetoSigningPayload(veto), Buffer.from(veto.signature, 'hex'))) {
+            return `Signature does not match the key of ${veto.guardianAccountId}`;
+        }
+    } catch (error) {
+        return `Could not verify signature: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    return null;
+}
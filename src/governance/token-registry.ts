@@ -0,0 +1,122 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ContractFunctionParameters } from '@hashgraph/sdk';
+import { TokenConfig, TokenRegistryConfigSchema } from '../typescript/token.js';
+import { TokenRatios } from '../typescript/governance.js';
+
+export const DEFAULT_TOKEN_REGISTRY_FILE = 'config/tokens.json';
+
+/**
+ * The governed token portfolio. Vote validation, tallying, the contract call encoding
+ * and snapshots are all driven from this list rather than hard-coded token fields.
+ */
+export class TokenRegistry {
+    readonly tokens: TokenConfig[];
+
+    constructor(tokens: TokenConfig[]) {
+        // Contract parameter order, which is also the canonical token order
+        this.tokens = [...tokens].sort((a, b) => a.contractParamIndex - b.contractParamIndex);
+
+        const symbols = new Set(this.tokens.map(token => token.symbol));
+        if (symbols.size !== this.tokens.length) {
+            throw new Error('Token registry contains duplicate symbols');
+        }
+        this.tokens.forEach((token, index) => {
+            if (token.contractParamIndex !== index) {
+                throw new Error(`Token registry contract parameter positions must be 0..${this.tokens.length - 1}, ${token.symbol} has ${token.contractParamIndex}`);
+            }
+            if (token.minRatio > token.maxRatio) {
+                throw new Error(`${token.symbol} minRatio ${token.minRatio} exceeds maxRatio ${token.maxRatio}`);
+            }
+        });
+    }
+
+    get symbols(): string[] {
+        return this.tokens.map(token => token.symbol);
+    }
+
+    has(symbol: string): boolean {
+        return this.tokens.some(token => token.symbol === symbol);
+    }
+
+    get(symbol: string): TokenConfig | undefined {
+        return this.tokens.find(token => token.symbol === symbol);
+    }
+
+    /**
+     * Zod schema for a complete ratio allocation keyed by symbol, e.g. as a tool input.
+     */
+    ratiosSchema(): z.ZodObject<Record<string, z.ZodNumber>> {
+        const shape: Record<string, z.ZodNumber> = {};
+        for (const token of this.tokens) {
+            shape[token.symbol] = z.number().min(token.minRatio).max(token.maxRatio)
+                .describe(`${token.symbol} token ratio percentage`);
+        }
+        return z.object(shape);
+    }
+
+    /**
+     * Problems that would make the contract reject these ratios (empty when valid).
+     */
+    validateRatios(ratios: TokenRatios): string[] {
+        const errors: string[] = [];
+        for (const symbol of Object.keys(ratios)) {
+            if (!this.has(symbol)) {
+                errors.push(`Unknown token ${symbol}`);
+            }
+        }
+        for (const token of this.tokens) {
+            const ratio = ratios[token.symbol];
+            if (ratio === undefined) {
+                errors.push(`Missing ratio for ${token.symbol}`);
+            } else if (!Number.isInteger(ratio)) {
+                errors.push(`${token.symbol} ratio ${ratio} is not a whole percentage`);
+            } else if (ratio < token.minRatio || ratio > token.maxRatio) {
+                errors.push(`${token.symbol} ratio ${ratio}% is outside ${token.minRatio}-${token.maxRatio}%`);
+            }
+        }
+        const total = this.tokens.reduce((sum, token) => sum + (ratios[token.symbol] ?? 0), 0);
+        if (Math.abs(total - 100) > 0.01) {
+            errors.push(`Token ratios must sum to 100%, got ${total}%`);
+        }
+        return errors;
+    }
+
+    /**
+     * Encode ratios as the contract's uint256 parameters in registry position order.
+     */
+    toContractParameters(ratios: TokenRatios): ContractFunctionParameters {
+        const parameters = new ContractFunctionParameters();
+        for (const token of this.tokens) {
+            parameters.addUint256(ratios[token.symbol]);
+        }
+        return parameters;
+    }
+
+    /**
+     * Decode ratios from a contract result holding one uint256 per token in registry
+     * position order, the inverse of `toContractParameters`.
+     */
+    fromContractResult(result: Uint8Array): TokenRatios {
+        if (result.length < this.tokens.length * 32) {
+            throw new Error(`Expected ${this.tokens.length} uint256 ratios, got ${result.length} bytes`);
+        }
+        const ratios: TokenRatios = {};
+        this.tokens.forEach((token, index) => {
+            const word = Buffer.from(result.subarray(index * 32, (index + 1) * 32)).toString('hex');
+            ratios[token.symbol] = Number(BigInt(`0x${word}`));
+        });
+        return ratios;
+    }
+}
+
+export function loadTokenRegistry(filePath: string = process.env.TOKEN_REGISTRY_FILE || DEFAULT_TOKEN_REGISTRY_FILE): TokenRegistry {
+    let raw: string;
+    try {
+        raw = readFileSync(filePath, 'utf8');
+    } catch (error) {
+        throw new Error(`Could not read token registry ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const config = TokenRegistryConfigSchema.parse(JSON.parse(raw));
+    return new TokenRegistry(config.tokens);
+}
@@ -0,0 +1,44 @@
+import { ExportedTopicMessage } from '../typescript/topic-export.js';
+import { mirrorNodeTimestamp } from './voting-power.js';
+
+const MIRROR_PAGE_SIZE = 100;
+
+// Consensus time window of a topic read: from inclusive, to exclusive
+export interface TopicMessageRange {
+    from?: Date;
+    to?: Date;
+}
+
+/**
+ * Every message of a topic from a mirror node REST API, oldest first, in the shape of a
+ * topic export. Pages through the whole history unless a range narrows it.
+ */
+export async function fetchTopicMessages(mirrorNodeUrl: string, topicId: string, range: TopicMessageRange = {}): Promise<ExportedTopicMessage[]> {
+    const baseUrl = mirrorNodeUrl.replace(/\/$/, '');
+    const messages: ExportedTopicMessage[] = [];
+    const filters = [
+        range.from && `&timestamp=gte:${mirrorNodeTimestamp(range.from)}`,
+        range.to && `&timestamp=lt:${mirrorNodeTimestamp(range.to)}`
+    ].filter(Boolean).join('');
+    let next: string | null = `/api/v1/topics/${topicId}/messages?order=asc&limit=${MIRROR_PAGE_SIZE}${filters}`;
+
+    while (next) {
+        const response = await fetch(`${baseUrl}${next}`);
+        if (!response.ok) {
+            throw new Error(`Mirror node returned ${response.status} for topic ${topicId}`);
+        }
+        const body = await response.json() as {
+            messages?: { sequence_number: number; consensus_timestamp: string; message: string }[];
+            links?: { next?: string | null };
+        };
+        for (const message of body.messages ?? []) {
+            messages.push({
+                sequence: message.sequence_number,
+                timestamp: new Date(parseFloat(message.consensus_timestamp) * 1000),
+                content: Buffer.from(message.message, 'base64').toString('utf8')
+            });
+        }
+        next = body.links?.next ?? null;
+    }
+    return messages;
+}
@@ -0,0 +1,104 @@
+import { PublicKey } from '@hashgraph/sdk';
+import { MultiRatioVote, VoteRejection } from '../typescript/vote.js';
+
+/**
+ * Looks up the public key that controls a Hedera account.
+ */
+export interface AccountKeyResolver {
+    getPublicKey(accountId: string): Promise<PublicKey | null>;
+}
+
+/**
+ * Resolves account keys from a mirror node REST API. Threshold/key-list accounts
+ * (ProtobufEncoded keys) can't sign a detached vote and resolve to null.
+ */
+export class MirrorNodeAccountKeyResolver implements AccountKeyResolver {
+    constructor(private mirrorNodeUrl: string) {}
+
+    async getPublicKey(accountId: string): Promise<PublicKey | null> {
+        const response = await fetch(`${this.mirrorNodeUrl.replace(/\/$/, '')}/api/v1/accounts/${accountId}`);
+        if (!response.ok) {
+            throw new Error(`Mirror node returned ${response.status} for ${accountId}`);
+        }
+
+        const body = await response.json() as { key?: { _type: string; key: string } | null };
+        switch (body.key?._type) {
+            case 'ED25519':
+                return PublicKey.fromStringED25519(body.key.key);
+            case 'ECDSA_SECP256K1':
+                return PublicKey.fromStringECDSA(body.key.key);
+            default:
+                return null;
+        }
+    }
+}
+
+export interface VoteAuthOptions {
+    keyResolver?: AccountKeyResolver;
+    requireSignature: boolean;
+}
+
+/**
+ * The exact bytes a voter signs for the optional detached `signature` field:
+ * the vote fields in a fixed order, with the timestamp as an ISO string.
+ */
+export function voteSigningPayload(vote: MultiRatioVote): Uint8Array {
+    const payload = {
+        type: vote.type,
+        ratioChanges: vote.ratioChanges.map(change => ({ token: change.token, newRatio: change.newRatio })),
+        voterAccountId: vote.voterAccountId,
+        votingPower: vote.votingPower,
+        timestamp: vote.timestamp.toISOString(),
+        reason: vote.reason
+    };
+    return Buffer.from(JSON.stringify(payload), 'utf8');
+}
+
+/**
+ * Check that the claimed voter actually submitted the vote: the HCS message payer must be
+ * the voter, and a detached signature (when present or required) must verify against the
+ * voter's account key. Returns null when the vote is authentic.
+ */
+export async function authenticateVote(
+    vote: MultiRatioVote,
+    payerAccountId: string | null,
+    options: VoteAuthOptions
+): Promise<VoteRejection | null> {
+    if (!payerAccountId) {
+        return { code: 'PAYER_UNKNOWN', reason: 'Topic message carries no initial transaction ID' };
+    }
+    if (payerAccountId !== vote.voterAccountId) {
+        return {
+            code: 'PAYER_MISMATCH',
+            reason: `Vote for ${vote.voterAccountId} was submitted by ${payerAccountId}`,
+            details: { voter: vote.voterAccountId, payer: payerAccountId }
+        };
+    }
+
+    if (!vote.signature) {
+        return options.requireSignature
+            ? { code: 'MISSING_SIGNATURE', reason: 'Vote signatures are required' }
+            : null;
+    }
+
+    if (!options.keyResolver) {
+        return { code: 'INVALID_SIGNATURE', reason: 'No account key resolver configured to verify the signature' };
+    }
+
+    try {
+        const publicKey = await options.keyResolver.getPublicKey(vote.voterAccountId);
+        if (!publicKey) {
+            return { code: 'INVALID_SIGNATURE', reason: `${vote.voterAccountId} has no single public key to verify against` };
+        }
+        if (!publicKey.verify(voteSigningPayload(vote), Buffer.from(vote.signature, 'hex'))) {
+            return { code: 'INVALID_SIGNATURE', reason: `Signature does not match the key of ${vote.voterAccountId}` };
+        }
+    } catch (error) {
+        return {
+            code: 'INVALID_SIGNATURE',
+            reason: `Could not verify signature: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+
+    return null;
+}
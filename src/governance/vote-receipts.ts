@@ -0,0 +1,26 @@
+import { VoteReceipt, VoteReceiptSchema } from '../typescript/receipt.js';
+import { ExportedTopicMessage } from '../typescript/topic-export.js';
+
+/**
+ * Receipt topic messages that aren't receipts parse to null.
+ */
+export function parseVoteReceipt(raw: string): VoteReceipt | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    const parsed = VoteReceiptSchema.safeParse(data);
+    return parsed.success ? parsed.data : null;
+}
+
+/**
+ * A voter's receipts from the receipt topic (e.g. fetchTopicMessages), oldest first.
+ */
+export function receiptsForVoter(messages: ExportedTopicMessage[], voterAccountId: string): VoteReceipt[] {
+    return [...messages]
+        .sort((a, b) => a.sequence - b.sequence)
+        .map(message => parseVoteReceipt(message.content))
+        .filter((receipt): receipt is VoteReceipt => receipt?.voterAccountId === voterAccountId);
+}
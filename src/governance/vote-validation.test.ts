@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MultiRatioVote } from '../typescript/vote.js';
+import { HCS2Info } from './parse-vote.js';
+import { TokenRegistry } from './token-registry.js';
+import { createRound } from './round.js';
+import { VOTE_CLOCK_TOLERANCE_MS, validateVote, validateVoteTimestamp } from './vote-validation.js';
+
+const registry = new TokenRegistry([
+    { symbol: 'HBAR', tokenId: null, decimals: 8, contractParamIndex: 0, minRatio: 10, maxRatio: 80 },
+    { symbol: 'USDC', tokenId: '0.0.1002', decimals: 6, contractParamIndex: 1, minRatio: 0, maxRatio: 100 }
+]);
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date('2026-01-01T00:00:00Z');
+const round = createRound({ quorumThreshold: 1000, durationMs: 24 * HOUR, tallyStrategy: 'plurality', reconciliationPolicy: 'normalize' }, start);
+const hcs2Info: HCS2Info = { topicId: '0.0.9001', operation: 'register' };
+
+function vote(ratios: [string, number][], timestamp: Date = new Date(start.getTime() + HOUR)): MultiRatioVote {
+    return {
+        type: 'MULTI_RATIO_VOTE',
+        voterAccountId: '0.0.5001',
+        votingPower: 100,
+        timestamp,
+        ratioChanges: ratios.map(([token, newRatio]) => ({ token, newRatio }))
+    };
+}
+
+const context = { registry, round, votingTopicId: '0.0.9001', consensusTimestamp: new Date(start.getTime() + HOUR) };
+
+describe('validateVote', () => {
+    it('accepts a vote that follows every rule', () => {
+        assert.equal(validateVote(vote([['HBAR', 60], ['USDC', 40]]), hcs2Info, context), null);
+    });
+
+    it('reports the first rule a vote breaks', () => {
+        const cases: [MultiRatioVote, HCS2Info, string][] = [
+            [vote([['HBAR', 60], ['USDC', 40]]), { ...hcs2Info, topicId: '0.0.9999' }, 'TOPIC_MISMATCH'],
+            [vote([['HBAR', 60], ['HBAR', 40]]), hcs2Info, 'DUPLICATE_TOKEN'],
+            [vote([['HBAR', 60], ['DOGE', 40]]), hcs2Info, 'UNKNOWN_TOKEN'],
+            [vote([['HBAR', 60], ['USDC', 30]]), hcs2Info, 'RATIO_SUM_INVALID'],
+            [vote([['HBAR', 90], ['USDC', 10]]), hcs2Info, 'RATIO_OUT_OF_BOUNDS'],
+            [vote([['HBAR', 60], ['USDC', 40]], new Date(start.getTime() - HOUR)), hcs2Info, 'VOTE_OUTSIDE_ROUND']
+        ];
+        for (const [ballot, info, code] of cases) {
+            assert.equal(validateVote(ballot, info, context)?.code, code);
+        }
+    });
+
+    it('skips the topic check when the voting topic is unknown', () => {
+        const { votingTopicId: _votingTopicId, ...backtest } = context;
+        assert.equal(validateVote(vote([['HBAR', 60], ['USDC', 40]]), { ...hcs2Info, topicId: '0.0.9999' }, backtest), null);
+    });
+});
+
+describe('validateVoteTimestamp', () => {
+    const consensus = new Date(start.getTime() + HOUR);
+    const at = (offsetMs: number) => vote([['HBAR', 60], ['USDC', 40]], new Date(offsetMs));
+
+    it('allows voter clocks to be off by the tolerance', () => {
+        assert.equal(validateVoteTimestamp(at(start.getTime() - VOTE_CLOCK_TOLERANCE_MS), round, consensus), null);
+        assert.equal(validateVoteTimestamp(at(consensus.getTime() + VOTE_CLOCK_TOLERANCE_MS), round, consensus), null);
+        assert.equal(validateVoteTimestamp(at(consensus.getTime() + VOTE_CLOCK_TOLERANCE_MS + 1), round, consensus)?.code, 'VOTE_OUTSIDE_ROUND');
+    });
+
+    it('rejects votes cast before the round opened', () => {
+        const early = new Date(start.getTime() - HOUR);
+        assert.equal(validateVoteTimestamp(at(early.getTime()), round, consensus)?.code, 'VOTE_OUTSIDE_ROUND');
+        // Even when the message reached consensus before the round, unless it was held
+        assert.equal(validateVoteTimestamp(at(early.getTime()), round, early)?.code, 'VOTE_OUTSIDE_ROUND');
+    });
+
+    it('checks a held vote from its own consensus time', () => {
+        const held = new Date(start.getTime() - HOUR);
+        assert.equal(validateVoteTimestamp(at(held.getTime()), round, held, true), null);
+        assert.equal(validateVoteTimestamp(at(held.getTime() - VOTE_CLOCK_TOLERANCE_MS - 1), round, held, true)?.code, 'VOTE_OUTSIDE_ROUND');
+    });
+});
@@ -0,0 +1,111 @@
+import { MultiRatioVote, VoteRejection } from '../typescript/vote.js';
+import { GovernanceRound } from '../typescript/round.js';
+import { HCS2Info } from './parse-vote.js';
+import { TokenRegistry } from './token-registry.js';
+
+// Allowance for voters' clocks when checking vote timestamps
+export const VOTE_CLOCK_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface VoteValidationContext {
+    registry: TokenRegistry;
+    round: GovernanceRound;
+    // Topic the vote was read from; the t_id check is skipped when unknown (e.g. in backtests)
+    votingTopicId?: string;
+    consensusTimestamp: Date;
+    // Held while the previous round's result was decided, so it reached consensus before this round opened
+    held?: boolean;
+}
+
+/**
+ * Apply the governance rules to a well-formed vote, in order: HCS-2 topic, duplicate
+ * tokens, registry tokens, ratio sum, ratio bounds and round window. Returns the first
+ * rule the vote breaks, or null when it may be counted.
+ */
+export function validateVote(vote: MultiRatioVote, hcs2Info: HCS2Info, context: VoteValidationContext): VoteRejection | null {
+    if (context.votingTopicId && hcs2Info.topicId !== context.votingTopicId) {
+        return {
+            code: 'TOPIC_MISMATCH',
+            reason: `Vote is registered for topic ${hcs2Info.topicId}, not the voting topic ${context.votingTopicId}`,
+            details: { topicId: hcs2Info.topicId, votingTopicId: context.votingTopicId }
+        };
+    }
+
+    const tokens = vote.ratioChanges.map(change => change.token);
+    const duplicateTokens = [...new Set(tokens.filter((token, index) => tokens.indexOf(token) !== index))];
+    if (duplicateTokens.length > 0) {
+        return {
+            code: 'DUPLICATE_TOKEN',
+            reason: `Vote lists tokens more than once: ${duplicateTokens.join(', ')}`,
+            details: { duplicateTokens }
+        };
+    }
+
+    const tokenRejection = validateVoteTokens(vote, context.registry);
+    if (tokenRejection) {
+        return tokenRejection;
+    }
+
+    return validateVoteTimestamp(vote, context.round, context.consensusTimestamp, context.held);
+}
+
+/**
+ * Check a vote's ratio changes against the token registry. Returns null when every
+ * token is governed, the ratios sum to 100% and every ratio is within that token's bounds.
+ */
+export function validateVoteTokens(vote: MultiRatioVote, registry: TokenRegistry): VoteRejection | null {
+    const unknownTokens = vote.ratioChanges
+        .map(change => change.token)
+        .filter(token => !registry.has(token));
+    if (unknownTokens.length > 0) {
+        return {
+            code: 'UNKNOWN_TOKEN',
+            reason: `Vote includes tokens that are not governed: ${unknownTokens.join(', ')}`,
+            details: { unknownTokens, governedTokens: registry.symbols }
+        };
+    }
+
+    // A ballot is a complete allocation; same tolerance as MultiRatioVoteSchema
+    const sum = vote.ratioChanges.reduce((total, change) => total + change.newRatio, 0);
+    if (Math.abs(sum - 100) > 0.01) {
+        return {
+            code: 'RATIO_SUM_INVALID',
+            reason: `Ratios sum to ${sum}%, not 100%`,
+            details: { sum }
+        };
+    }
+
+    for (const change of vote.ratioChanges) {
+        const token = registry.get(change.token)!;
+        if (change.newRatio < token.minRatio || change.newRatio > token.maxRatio) {
+            return {
+                code: 'RATIO_OUT_OF_BOUNDS',
+                reason: `${change.token} ratio ${change.newRatio}% is outside ${token.minRatio}-${token.maxRatio}%`,
+                details: { token: change.token, ratio: change.newRatio, minRatio: token.minRatio, maxRatio: token.maxRatio }
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * The vote must be cast inside the round window, give or take VOTE_CLOCK_TOLERANCE_MS: not
+ * before the round opened and not after its message reached consensus (which the round
+ * only accepts before its deadline). A held message reached consensus before the round
+ * opened, so it may also be cast from its consensus time on.
+ */
+export function validateVoteTimestamp(vote: MultiRatioVote, round: GovernanceRound, consensusTimestamp: Date, held: boolean = false): VoteRejection | null {
+    const consensus = consensusTimestamp.getTime();
+    const startTime = round.startTime.getTime();
+    const opensAt = (held ? Math.min(startTime, consensus) : startTime) - VOTE_CLOCK_TOLERANCE_MS;
+    const closesAt = consensus + VOTE_CLOCK_TOLERANCE_MS;
+    const castAt = vote.timestamp.getTime();
+    if (castAt < opensAt || castAt > closesAt) {
+        return {
+            code: 'VOTE_OUTSIDE_ROUND',
+            reason: `Vote timestamp ${vote.timestamp.toISOString()} is outside round ${round.id} (${new Date(opensAt).toISOString()} - ${new Date(closesAt).toISOString()})`,
+            details: { timestamp: vote.timestamp, opensAt: new Date(opensAt), closesAt: new Date(closesAt) }
+        };
+    }
+    return null;
+}
@@ -0,0 +1,130 @@
+import { MultiRatioVote, VoteRejection } from '../typescript/vote.js';
+
+/**
+ * Source of truth for a voter's real voting power. Power is read as of a fixed moment (the
+ * round start), so tokens moved to another account mid-round can't be voted twice.
+ */
+export interface VotingPowerProvider {
+    getVotingPower(accountId: string, at: Date): Promise<number>;
+}
+
+// What to do with a vote claiming more power than the voter holds
+export type VotingPowerPolicy = 'reject' | 'clamp';
+
+export type VotingPowerCheck =
+    | { accepted: true; vote: MultiRatioVote; verifiedPower: number; clamped: boolean }
+    | { accepted: false; rejection: VoteRejection };
+
+/**
+ * Voting power from the governance token balance at a given moment, read from the
+ * balance snapshots of a mirror node REST API.
+ */
+export class MirrorNodeVotingPowerProvider implements VotingPowerProvider {
+    private decimals?: Promise<number>;
+
+    constructor(private mirrorNodeUrl: string, private governanceTokenId: string) {}
+
+    async getVotingPower(accountId: string, at: Date): Promise<number> {
+        const baseUrl = this.mirrorNodeUrl.replace(/\/$/, '');
+        const response = await fetch(`${baseUrl}/api/v1/balances?account.id=${accountId}&timestamp=lte:${mirrorNodeTimestamp(at)}`);
+        if (!response.ok) {
+            throw new Error(`Mirror node returned ${response.status} for ${accountId}`);
+        }
+
+        const body = await response.json() as { balances?: { account: string; tokens?: { token_id: string; balance: number }[] }[] };
+        const tokenBalance = body.balances
+            ?.find(balance => balance.account === accountId)
+            ?.tokens?.find(token => token.token_id === this.governanceTokenId);
+        if (!tokenBalance) {
+            return 0;
+        }
+        // The balances endpoint leaves out decimals, so read them from the token once
+        this.decimals ??= this.fetchDecimals();
+        return tokenBalance.balance / Math.pow(10, await this.decimals);
+    }
+
+    private async fetchDecimals(): Promise<number> {
+        const response = await fetch(`${this.mirrorNodeUrl.replace(/\/$/, '')}/api/v1/tokens/${this.governanceTokenId}`);
+        if (!response.ok) {
+            this.decimals = undefined;
+            throw new Error(`Mirror node returned ${response.status} for token ${this.governanceTokenId}`);
+        }
+        const body = await response.json() as { decimals?: string | number };
+        return Number(body.decimals ?? 0);
+    }
+}
+
+/**
+ * Fixed voting power per account, for local runs and tests. Transfers take effect from
+ * their timestamp, so balances can be checked as of any moment.
+ */
+export class StaticVotingPowerProvider implements VotingPowerProvider {
+    private balances: Map<string, number>;
+    private transfers: { from: string; to: string; amount: number; at: Date }[] = [];
+
+    constructor(balances: Record<string, number>) {
+        this.balances = new Map(Object.entries(balances));
+    }
+
+    transfer(from: string, to: string, amount: number, at: Date): void {
+        this.transfers.push({ from, to, amount, at });
+    }
+
+    async getVotingPower(accountId: string, at: Date): Promise<number> {
+        return this.transfers
+            .filter(transfer => transfer.at.getTime() <= at.getTime())
+            .reduce((balance, transfer) => balance
+                + (transfer.to === accountId ? transfer.amount : 0)
+                - (transfer.from === accountId ? transfer.amount : 0),
+            this.balances.get(accountId) ?? 0);
+    }
+}
+
+export function mirrorNodeUrlFor(network: string | undefined): string {
+    return `https://${network || 'testnet'}.mirrornode.hedera.com`;
+}
+
+// Mirror node timestamp filter value: seconds.nanoseconds
+export function mirrorNodeTimestamp(date: Date): string {
+    const ms = date.getTime();
+    return `${Math.floor(ms / 1000)}.${String(ms % 1000).padStart(3, '0')}000000`;
+}
+
+/**
+ * Check a vote's self-reported voting power against the provider's balance as of `at`
+ * (the round start). Over-claims are rejected or clamped to the verified power depending
+ * on the policy. Provider errors are thrown, not turned into a rejection: a balance that
+ * could not be read says nothing about the vote.
+ */
+export async function verifyVotingPower(
+    vote: MultiRatioVote,
+    provider: VotingPowerProvider,
+    policy: VotingPowerPolicy,
+    at: Date
+): Promise<VotingPowerCheck> {
+    const verifiedPower = await provider.getVotingPower(vote.voterAccountId, at);
+
+    if (verifiedPower <= 0) {
+        return {
+            accepted: false,
+            rejection: { code: 'NO_VOTING_POWER', reason: `${vote.voterAccountId} held no governance tokens at ${at.toISOString()}` }
+        };
+    }
+
+    if (vote.votingPower <= verifiedPower) {
+        return { accepted: true, vote, verifiedPower, clamped: false };
+    }
+
+    if (policy === 'clamp') {
+        return { accepted: true, vote: { ...vote, votingPower: verifiedPower }, verifiedPower, clamped: true };
+    }
+
+    return {
+        accepted: false,
+        rejection: {
+            code: 'VOTING_POWER_MISMATCH',
+            reason: `Claimed voting power ${vote.votingPower} exceeds verified power ${verifiedPower}`,
+            details: { claimed: vote.votingPower, verified: verifiedPower }
+        }
+    };
+}
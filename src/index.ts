@@ -17,7 +17,10 @@ async function main(): Promise<void> {
 
   try {
     // Create and initialize the balancer agent
-    const agent = new LynxGovernanceAgent();
+    const agent = new LynxGovernanceAgent({
+      replayFromStart: process.argv.includes('--replay') || undefined,
+      dryRun: process.argv.includes('--dry-run') || undefined
+    });
     
     // Initialize the agent
     await agent.initialize();
@@ -0,0 +1,404 @@
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { LynxGovernanceAgent } from '../agent/lynx-governance-agent.js';
+import { EnvironmentConfig } from '../agent/agent-env.js';
+import { GovernanceState } from '../typescript/state.js';
+import { MultiRatioVote } from '../typescript/vote.js';
+import { Scenario, ScenarioExpectation, ScenarioMessage, ScenarioOffset } from '../typescript/scenario.js';
+import { TokenRatios } from '../typescript/governance.js';
+import { TokenRegistry } from '../governance/token-registry.js';
+import { StaticVotingPowerProvider } from '../governance/voting-power.js';
+import { InMemoryStateStore } from '../state/memory-state-store.js';
+import { InMemoryOutboxStore } from '../state/memory-outbox-store.js';
+import { ConsensusMessage, InMemoryConsensusTransport } from '../transport/consensus-transport.js';
+import { InMemoryContractGateway, encodeCallData } from '../transport/contract-gateway.js';
+import { InMemoryScheduleGateway } from '../transport/schedule-gateway.js';
+import { ratioDifferences } from '../governance/contract-ratios.js';
+import { CONTRACT_ROLES, DEFAULT_GOVERNANCE_UPDATE_FUNCTION, accountEvmAddress } from '../governance/contract-roles.js';
+import { validateRatioPolicy } from '../governance/ratio-policy.js';
+import { vetoSigningPayload } from '../governance/timelock.js';
+import { VetoMessage } from '../typescript/timelock.js';
+import { TokenRatioSnapshotDataSchema } from '../typescript/snapshot.js';
+import { verifySnapshotSignature, votesMerkleRoot } from '../governance/snapshot-provenance.js';
+import { VoteReceipt } from '../typescript/receipt.js';
+import { parseVoteReceipt } from '../governance/vote-receipts.js';
+
+// In-memory network the scenario runs against
+const OPERATOR_ACCOUNT = '0.0.9000';
+const OTHER_ACCOUNT = '0.0.9999';
+// Multi-signature account that pays scheduled updates, so it holds the contract role instead
+const SCHEDULE_PAYER_ACCOUNT = '0.0.9200';
+const LYNX_CONTRACT = '0.0.9100';
+// Ratio getter of the in-memory contract
+const RATIOS_FUNCTION = 'getRatios';
+const TOPICS = {
+    voting: '0.0.9001',
+    dashboard: '0.0.9002',
+    balancer: '0.0.9003',
+    snapshot: '0.0.9004',
+    control: '0.0.9005',
+    receipts: '0.0.9006'
+};
+
+export interface ScenarioResult {
+    name: string;
+    passed: boolean;
+    failures: string[];
+}
+
+/**
+ * What the agent did during a scenario, for checking against the expectations.
+ */
+interface ScenarioRun {
+    firstRound: GovernanceState;
+    finalStates: GovernanceState[];          // Last saved state of every round
+    contracts: InMemoryContractGateway;
+    alerts: ConsensusMessage[];
+    snapshots: ConsensusMessage[];
+    receipts: VoteReceipt[];
+    operatorKey: PublicKey;
+}
+
+export function offsetMs(offset: ScenarioOffset): number {
+    if (typeof offset === 'number') {
+        return offset * 1000;
+    }
+    const value = parseFloat(offset);
+    const unit = offset.slice(-1);
+    return value * (unit === 'h' ? 3600_000 : unit === 'm' ? 60_000 : 1000);
+}
+
+/**
+ * Play a scenario against a fresh agent on in-memory transports and check its expectations.
+ * The agent reads topic and contract IDs from the environment, so they are pointed at the
+ * in-memory network for the duration of the run.
+ */
+export async function runScenario(scenario: Scenario, registry: TokenRegistry): Promise<ScenarioResult> {
+    let run: ScenarioRun;
+    try {
+        run = await playScenario(scenario, registry);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (scenario.expect.startupError && message.includes(scenario.expect.startupError)) {
+            return { name: scenario.name, passed: true, failures: [] };
+        }
+        return { name: scenario.name, passed: false, failures: [`Scenario could not run: ${message}`] };
+    }
+    if (scenario.expect.startupError) {
+        return { name: scenario.name, passed: false, failures: [`startupError: expected "${scenario.expect.startupError}", but the agent started`] };
+    }
+
+    const failures = checkExpectations(scenario.expect, run, registry);
+    return { name: scenario.name, passed: failures.length === 0, failures };
+}
+
+async function playScenario(scenario: Scenario, registry: TokenRegistry): Promise<ScenarioRun> {
+    validateRatioPolicy(scenario.policy, registry);
+    // Passed to the agent instead of process.env, so scenarios don't depend on or leak into it
+    const environment: EnvironmentConfig = {
+        HEDERA_ACCOUNT_ID: OPERATOR_ACCOUNT,
+        LYNX_CONTRACT,
+        LYNX_RATIOS_FUNCTION: RATIOS_FUNCTION,
+        LYNX_GOVERNANCE_UPDATE_FUNCTION: DEFAULT_GOVERNANCE_UPDATE_FUNCTION,
+        CURRENT_ROUND_VOTING_TOPIC: TOPICS.voting,
+        DASHBOARD_ALERT_TOPIC: TOPICS.dashboard,
+        BALANCER_ALERT_TOPIC: TOPICS.balancer,
+        TOKEN_RATIO_SNAPSHOT_TOPIC: TOPICS.snapshot,
+        GOVERNANCE_CONTROL_TOPIC: TOPICS.control,
+        VOTE_RECEIPT_TOPIC: TOPICS.receipts,
+        REQUIRE_VOTE_SIGNATURE: 'false'
+    };
+
+    const transport = new InMemoryConsensusTransport(OPERATOR_ACCOUNT);
+    const contracts = simulateLynxContract(scenario.contract, registry, scenario.execution ? SCHEDULE_PAYER_ACCOUNT : OPERATOR_ACCOUNT);
+    const stateStore = new InMemoryStateStore();
+    const voters = new Map(scenario.voters.map(voter => [voter.account, voter]));
+    const operatorKey = PrivateKey.generateED25519();
+    const accountKeys = new Map([...scenario.timelock?.guardians ?? [], ...scenario.execution?.signers ?? []]
+        .map(account => [account, PrivateKey.generateED25519()]));
+    const signers = scenario.execution?.signers ?? [];
+    const schedules = new InMemoryScheduleGateway(
+        contracts,
+        signers.map(signer => accountKeys.get(signer)!.publicKey.toStringRaw()),
+        scenario.execution?.threshold ?? signers.length
+    );
+
+    const balances = new StaticVotingPowerProvider(Object.fromEntries(
+        scenario.voters.map(voter => [voter.account, voter.balance ?? voter.power])
+    ));
+
+    const agent = new LynxGovernanceAgent({
+        environment,
+        stateStore,
+        outboxStore: new InMemoryOutboxStore(),
+        consensusTransport: transport,
+        contractGateway: contracts,
+        tokenRegistry: registry,
+        dryRun: false,
+        replayFromStart: false,
+        votingPowerProvider: balances,
+        votingPowerPolicy: scenario.round.votingPowerPolicy,
+        ratioPolicy: scenario.policy,
+        contractRole: 'auto',
+        operatorKey,
+        keyResolver: { getPublicKey: async accountId => accountKeys.get(accountId)?.publicKey ?? null },
+        // No grace period: vetoes are delivered as soon as they are submitted
+        timelock: scenario.timelock
+            ? { delayMs: scenario.timelock.delayHours * 3600_000, guardians: scenario.timelock.guardians, controlTopicId: TOPICS.control, graceMs: 0 }
+            : null,
+        scheduleGateway: schedules,
+        scheduledExecution: scenario.execution
+            ? { signers, payerAccountId: SCHEDULE_PAYER_ACCOUNT, expiryMs: scenario.execution.expiryHours && scenario.execution.expiryHours * 3600_000 }
+            : null,
+        roundConfig: {
+            quorumThreshold: scenario.round.quorumThreshold,
+            durationMs: scenario.round.durationHours * 3600_000,
+            tallyStrategy: scenario.round.tallyStrategy,
+            reconciliationPolicy: scenario.round.reconciliationPolicy
+        }
+    });
+
+    await agent.initialize();
+    await agent.start();
+    const firstRoundId = stateStore.history[0].round.id;
+    const roundStart = stateStore.history[0].round.startTime.getTime();
+
+    try {
+        let offset = 0;
+        for (const message of scenario.messages) {
+            offset = message.at !== undefined ? offsetMs(message.at) : offset + 1000;
+            const at = new Date(roundStart + offset);
+            if ('veto' in message) {
+                const { payer, content } = buildVeto(message, latestRoundId(stateStore), accountKeys);
+                await transport.submitAs(payer, TOPICS.control, content, at);
+                continue;
+            }
+            if ('transfer' in message) {
+                // Token transfers change balances only; the agent sees them through the provider
+                balances.transfer(message.transfer.from, message.transfer.to, message.transfer.amount, at);
+                continue;
+            }
+            if ('sign' in message) {
+                // Signatures go to the schedule, not a topic; the agent sees them when it next checks
+                const key = accountKeys.get(message.sign) ?? PrivateKey.generateED25519();
+                await schedules.sign(latestScheduleId(stateStore), key.publicKey.toStringRaw(), at);
+                continue;
+            }
+            const { payer, content } = buildMessage(message, at, roundStart, voters);
+            await transport.submitAs(payer, TOPICS.voting, content, at);
+            // Held votes are delivered again once the next round opens
+            await transport.idle();
+        }
+    } finally {
+        await agent.stop();
+    }
+
+    const finalStates = new Map<string, GovernanceState>();
+    for (const state of stateStore.history) {
+        finalStates.set(state.round.id, state);
+    }
+
+    return {
+        firstRound: finalStates.get(firstRoundId)!,
+        finalStates: [...finalStates.values()],
+        contracts,
+        alerts: [...transport.messages(TOPICS.dashboard), ...transport.messages(TOPICS.balancer)]
+            .sort((a, b) => a.consensusTimestamp.getTime() - b.consensusTimestamp.getTime()),
+        snapshots: transport.messages(TOPICS.snapshot),
+        receipts: transport.messages(TOPICS.receipts)
+            .map(message => parseVoteReceipt(Buffer.from(message.contents).toString('utf8')))
+            .filter((receipt): receipt is VoteReceipt => receipt !== null),
+        operatorKey: operatorKey.publicKey
+    };
+}
+
+/**
+ * In-memory Lynx contract: the ratio getter returns whatever the last update set, and the
+ * role getters return the operator for the scenario's role.
+ */
+function simulateLynxContract(contract: Scenario['contract'], registry: TokenRegistry, roleHolder: string): InMemoryContractGateway {
+    const gateway = new InMemoryContractGateway();
+    let onChain = registry.toContractParameters(
+        Object.fromEntries(registry.symbols.map(symbol => [symbol, contract.ratios?.[symbol] ?? 0]))
+    )._build();
+    gateway.callHandlers.set(RATIOS_FUNCTION, () => onChain);
+    for (const [role, { getter }] of Object.entries(CONTRACT_ROLES)) {
+        const holder = contract.role === role ? roleHolder : OTHER_ACCOUNT;
+        gateway.callHandlers.set(getter, () => Buffer.from(accountEvmAddress(holder).padStart(64, '0'), 'hex'));
+    }
+    const updateFunctions = Object.values(CONTRACT_ROLES).map(role => role.updateFunction);
+    gateway.executeHandler = request => {
+        if (!updateFunctions.includes(request.functionName)) {
+            return;
+        }
+        // Only the role holding the function may call it
+        if (contract.role === 'none' || CONTRACT_ROLES[contract.role].updateFunction !== request.functionName) {
+            throw new Error('CONTRACT_REVERT_EXECUTED');
+        }
+        if (request.parameters && !contract.ignoreUpdates) {
+            onChain = request.parameters._build();
+        }
+    };
+    return gateway;
+}
+
+// A veto targets the round that most recently entered the timelock
+function latestRoundId(stateStore: InMemoryStateStore): string {
+    const timelocked = stateStore.history.filter(state => state.pendingExecution);
+    return (timelocked.at(-1) ?? stateStore.history.at(-1)!).round.id;
+}
+
+function latestScheduleId(stateStore: InMemoryStateStore): string {
+    const scheduleId = stateStore.history.map(state => state.scheduledExecution?.scheduleId).filter(Boolean).at(-1);
+    if (!scheduleId) {
+        throw new Error('No contract update has been scheduled to sign');
+    }
+    return scheduleId;
+}
+
+function buildVeto(
+    message: Extract<ScenarioMessage, { veto: string }>,
+    roundId: string,
+    guardianKeys: Map<string, PrivateKey>
+): { payer: string; content: string } {
+    const signer = message.signedBy ?? message.veto;
+    // Accounts that aren't guardians sign with a throwaway key
+    const key = guardianKeys.get(signer) ?? PrivateKey.generateED25519();
+    const unsigned: Omit<VetoMessage, 'signature'> = { type: 'VETO', roundId, guardianAccountId: message.veto, reason: message.reason };
+    const veto: VetoMessage = { ...unsigned, signature: Buffer.from(key.sign(vetoSigningPayload(unsigned))).toString('hex') };
+    return { payer: message.payer ?? message.veto, content: JSON.stringify(veto) };
+}
+
+function buildMessage(
+    message: Exclude<ScenarioMessage, { veto: string } | { sign: string } | { transfer: unknown }>,
+    at: Date,
+    roundStart: number,
+    voters: Map<string, Scenario['voters'][number]>
+): { payer: string; content: string } {
+    if ('raw' in message) {
+        return { payer: message.payer ?? OPERATOR_ACCOUNT, content: message.raw };
+    }
+
+    const voter = voters.get(message.voter);
+    if (!voter) {
+        throw new Error(`Message from ${message.voter}, who is not a scenario voter`);
+    }
+
+    const vote: MultiRatioVote = {
+        type: 'MULTI_RATIO_VOTE',
+        ratioChanges: Object.entries(message.ratios).map(([token, newRatio]) => ({ token, newRatio })),
+        voterAccountId: voter.account,
+        votingPower: message.power ?? voter.power,
+        timestamp: message.castAt !== undefined ? new Date(roundStart + offsetMs(message.castAt)) : at,
+        reason: message.reason
+    };
+    const hcs2Message = {
+        p: 'hcs-2',
+        op: 'register',
+        t_id: message.topic ?? TOPICS.voting,
+        metadata: JSON.stringify(vote),
+        m: 'Governance vote submission'
+    };
+    return { payer: message.payer ?? voter.account, content: JSON.stringify(hcs2Message) };
+}
+
+function sameRatios(expected: TokenRatios, actual: TokenRatios | undefined): boolean {
+    return actual !== undefined && ratioDifferences(expected, actual).length === 0;
+}
+
+function formatRatios(ratios: TokenRatios | undefined): string {
+    return ratios ? JSON.stringify(ratios) : 'none';
+}
+
+function checkExpectations(expect: ScenarioExpectation, run: ScenarioRun, registry: TokenRegistry): string[] {
+    const failures: string[] = [];
+    const { firstRound } = run;
+
+    if (expect.status && firstRound.round.status !== expect.status) {
+        failures.push(`status: expected ${expect.status}, got ${firstRound.round.status}${firstRound.round.failureReason ? ` (${firstRound.round.failureReason})` : ''}`);
+    }
+
+    if (expect.winningRatios && !sameRatios(expect.winningRatios, firstRound.winningRatios)) {
+        failures.push(`winningRatios: expected ${formatRatios(expect.winningRatios)}, got ${formatRatios(firstRound.winningRatios)}`);
+    }
+
+    const executions = run.contracts.executions;
+    if (expect.contractCall === null && executions.length > 0) {
+        failures.push(`contractCall: expected none, got ${executions.map(call => call.functionName).join(', ')}`);
+    } else if (expect.contractCall) {
+        const { functionName, ratios } = expect.contractCall;
+        const call = executions.find(execution => execution.functionName === functionName);
+        if (!call) {
+            failures.push(`contractCall: expected ${functionName}, got ${executions.map(execution => execution.functionName).join(', ') || 'none'}`);
+        } else if (call.contractId !== LYNX_CONTRACT) {
+            failures.push(`contractCall: expected contract ${LYNX_CONTRACT}, got ${call.contractId}`);
+        } else if (ratios) {
+            const errors = registry.validateRatios(ratios);
+            if (errors.length > 0) {
+                failures.push(`contractCall: expected ratios are not a valid allocation (${errors.join('; ')})`);
+            } else if (call.callData !== encodeCallData(functionName, registry.toContractParameters(ratios))) {
+                failures.push(`contractCall: ${functionName} was called with different arguments than ${formatRatios(ratios)}`);
+            }
+        }
+    }
+
+    if (expect.alerts) {
+        const sent = run.alerts.map(alert => Buffer.from(alert.contents).toString('utf8'));
+        let next = 0;
+        for (const expected of expect.alerts) {
+            const index = sent.findIndex((alert, i) => i >= next && alert.includes(expected));
+            if (index < 0) {
+                failures.push(`alerts: "${expected}" not sent${next > 0 ? ' after the previous expected alert' : ''}`);
+                break;
+            }
+            next = index + 1;
+        }
+    }
+
+    if (expect.rejections) {
+        const counts: Record<string, number> = {};
+        for (const state of run.finalStates) {
+            for (const [code, count] of Object.entries(state.statistics.rejections)) {
+                counts[code] = (counts[code] ?? 0) + count;
+            }
+        }
+        for (const [code, count] of Object.entries(expect.rejections)) {
+            if ((counts[code] ?? 0) !== count) {
+                failures.push(`rejections: expected ${count} ${code}, got ${counts[code] ?? 0}`);
+            }
+        }
+    }
+
+    if (expect.receipts) {
+        for (const [status, count] of Object.entries(expect.receipts)) {
+            const sent = run.receipts.filter(receipt => receipt.status === status).length;
+            if (sent !== count) {
+                failures.push(`receipts: expected ${count} ${status}, got ${sent}`);
+            }
+        }
+    }
+
+    failures.push(...checkSnapshots(run));
+    return failures;
+}
+
+// Every published snapshot must be signed by the operator and commit to the votes its round counted
+function checkSnapshots(run: ScenarioRun): string[] {
+    const failures: string[] = [];
+    for (const message of run.snapshots) {
+        const parsed = TokenRatioSnapshotDataSchema.safeParse(JSON.parse(JSON.parse(Buffer.from(message.contents).toString('utf8')).metadata));
+        if (!parsed.success) {
+            failures.push(`snapshot #${message.sequenceNumber}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+            continue;
+        }
+        const snapshot = parsed.data;
+        const signatureError = verifySnapshotSignature(snapshot, run.operatorKey);
+        if (signatureError) {
+            failures.push(`snapshot ${snapshot.snapshot_id}: ${signatureError}`);
+        }
+        const round = run.finalStates.find(state => state.round.id === snapshot.round_id);
+        if (!round || votesMerkleRoot(round.votes) !== snapshot.votes_merkle_root) {
+            failures.push(`snapshot ${snapshot.snapshot_id}: votes_merkle_root does not match the votes of round ${snapshot.round_id}`);
+        }
+    }
+    return failures;
+}
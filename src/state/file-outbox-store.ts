@@ -0,0 +1,60 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import { Outbox, OutboxMessage, OutboxMessageSchema } from '../typescript/outbox.js';
+import { OutboxStore } from './outbox-store.js';
+
+/**
+ * Stores the outbox as a JSON file, written to a temp file and renamed into place
+ * like the governance state. Records that no longer match the schema are moved to
+ * `<file>.invalid.json` instead of keeping the agent from starting.
+ */
+export class FileOutboxStore implements OutboxStore {
+    constructor(private filePath: string) {}
+
+    async load(): Promise<Outbox> {
+        let raw: string;
+        try {
+            raw = await readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { messages: [], deadLetters: [] };
+            }
+            throw error;
+        }
+        const outbox = JSON.parse(raw) as { messages?: unknown[]; deadLetters?: unknown[] };
+        const invalid: unknown[] = [];
+        const parseRecords = (records: unknown[] = []): OutboxMessage[] => records.flatMap(record => {
+            const parsed = OutboxMessageSchema.safeParse(record);
+            if (!parsed.success) {
+                invalid.push(record);
+                return [];
+            }
+            return [parsed.data];
+        });
+        const loaded = { messages: parseRecords(outbox.messages), deadLetters: parseRecords(outbox.deadLetters) };
+
+        if (invalid.length > 0) {
+            await this.quarantine(invalid);
+        }
+        return loaded;
+    }
+
+    async save(outbox: Outbox): Promise<void> {
+        const tempPath = `${this.filePath}.tmp`;
+        await writeFile(tempPath, JSON.stringify(outbox, null, 2));
+        await rename(tempPath, this.filePath);
+    }
+
+    private async quarantine(records: unknown[]): Promise<void> {
+        const quarantinePath = `${this.filePath}.invalid.json`;
+        let quarantined: unknown[] = [];
+        try {
+            quarantined = JSON.parse(await readFile(quarantinePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+        await writeFile(quarantinePath, JSON.stringify([...quarantined, ...records], null, 2));
+        console.warn(`⚠️  ${records.length} invalid outbox records moved to ${quarantinePath}`);
+    }
+}
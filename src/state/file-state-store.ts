@@ -0,0 +1,30 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import { GovernanceState, GovernanceStateSchema } from '../typescript/state.js';
+import { GovernanceStateStore } from './state-store.js';
+
+/**
+ * Stores governance state as a JSON file. Writes go to a temp file first and are
+ * renamed into place so a crash mid-write never leaves a truncated state file.
+ */
+export class FileStateStore implements GovernanceStateStore {
+    constructor(private filePath: string) {}
+
+    async load(): Promise<GovernanceState | null> {
+        let raw: string;
+        try {
+            raw = await readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+        return GovernanceStateSchema.parse(JSON.parse(raw));
+    }
+
+    async save(state: GovernanceState): Promise<void> {
+        const tempPath = `${this.filePath}.tmp`;
+        await writeFile(tempPath, JSON.stringify(state, null, 2));
+        await rename(tempPath, this.filePath);
+    }
+}
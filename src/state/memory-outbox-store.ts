@@ -0,0 +1,22 @@
+import { Outbox, OutboxMessage } from '../typescript/outbox.js';
+import { OutboxStore } from './outbox-store.js';
+
+/**
+ * Keeps the outbox in memory. Messages are copied on save so later changes by the
+ * outbox don't leak into what was "persisted".
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+    constructor(private messages: OutboxMessage[] = [], private deadLetters: OutboxMessage[] = []) {}
+
+    async load(): Promise<Outbox> {
+        return {
+            messages: this.messages.map(message => ({ ...message })),
+            deadLetters: this.deadLetters.map(message => ({ ...message }))
+        };
+    }
+
+    async save(outbox: Outbox): Promise<void> {
+        this.messages = outbox.messages.map(message => ({ ...message }));
+        this.deadLetters = outbox.deadLetters.map(message => ({ ...message }));
+    }
+}
@@ -0,0 +1,20 @@
+import { GovernanceState } from '../typescript/state.js';
+import { GovernanceStateStore } from './state-store.js';
+
+/**
+ * Keeps governance state in memory, with every saved version in `history`.
+ */
+export class InMemoryStateStore implements GovernanceStateStore {
+    readonly history: GovernanceState[] = [];
+
+    constructor(private state: GovernanceState | null = null) {}
+
+    async load(): Promise<GovernanceState | null> {
+        return this.state;
+    }
+
+    async save(state: GovernanceState): Promise<void> {
+        this.state = state;
+        this.history.push(state);
+    }
+}
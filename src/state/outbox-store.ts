@@ -0,0 +1,9 @@
+import { Outbox } from '../typescript/outbox.js';
+
+/**
+ * Persistence backend for outbound topic messages that have not been confirmed yet.
+ */
+export interface OutboxStore {
+    load(): Promise<Outbox>;
+    save(outbox: Outbox): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { GovernanceState } from '../typescript/state.js';
+import { GovernanceRound } from '../typescript/round.js';
+
+/**
+ * Persistence backend for governance round state.
+ */
+export interface GovernanceStateStore {
+    load(): Promise<GovernanceState | null>;
+    save(state: GovernanceState): Promise<void>;
+}
+
+/**
+ * State for a fresh round, carrying over the voting topic checkpoint from the previous one,
+ * and the messages it held while they are still unprocessed.
+ */
+export function createGovernanceState(round: GovernanceRound, previous?: GovernanceState | null): GovernanceState {
+    return {
+        round,
+        votes: [],
+        rejectedVotes: [],
+        statistics: { messagesProcessed: 0, votesAccepted: 0, votesSuperseded: 0, rejections: {} },
+        totalVotingPower: 0,
+        lastSequenceNumber: previous?.lastSequenceNumber,
+        lastConsensusTimestamp: previous?.lastConsensusTimestamp,
+        heldThroughSequenceNumber: previous?.heldThroughSequenceNumber !== undefined
+            && previous.heldThroughSequenceNumber > (previous.lastSequenceNumber ?? -1)
+            ? previous.heldThroughSequenceNumber
+            : undefined
+    };
+}
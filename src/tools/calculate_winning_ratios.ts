@@ -1,71 +1,33 @@
 import { z } from 'zod';
 import { StructuredTool } from '@langchain/core/tools';
-import { MultiRatioVoteSchema, MultiRatioVote } from '../typescript/vote.js';
+import { RecordedVoteSchema } from '../typescript/state.js';
+import { ReconciliationPolicySchema, TallyStrategyNameSchema } from '../typescript/governance.js';
+import { tallyVotes } from '../governance/tally.js';
+import { reconcileRatios } from '../governance/reconcile.js';
+import { TokenRegistry } from '../governance/token-registry.js';
 
 export class CalculateWinningRatiosTool extends StructuredTool {
     name = 'calculate_winning_ratios';
-    description = 'Processes all collected governance votes when quorum is reached to determine winning token ratios. Handles latest vote per voter (by timestamp), aggregates voting power by token/ratio combination, and returns the winning ratios for each token. Call this tool only after RUNNING_VOTE_TOTAL >= quorum threshold.';
+    description = 'Processes all collected governance votes when quorum is reached to determine winning token ratios. Handles latest vote per voter (by HCS sequence number), aggregates voting power by token/ratio combination, and returns the winning ratios for each token. Call this tool only after RUNNING_VOTE_TOTAL >= quorum threshold.';
     schema = z.object({
-        votes: z.array(MultiRatioVoteSchema)
+        votes: z.array(RecordedVoteSchema).describe('COLLECTED_VOTES, each with its HCS sequenceNumber'),
+        strategy: TallyStrategyNameSchema.optional().describe('Tally strategy, defaults to per-token plurality'),
+        reconciliation: ReconciliationPolicySchema.optional().describe('How to reconcile winners that do not sum to 100%')
     });
 
+    constructor(private registry: TokenRegistry) {
+        super();
+    }
+
     async _call(input: z.infer<typeof this.schema>): Promise<string> {
-        const votes = input.votes;
-        
-        // Process votes - latest vote per voter wins
-        const voterMap = new Map<string, MultiRatioVote>();
-        for (const vote of votes) {
-            const existing = voterMap.get(vote.voterAccountId);
-            if (!existing || vote.timestamp > existing.timestamp) {
-                voterMap.set(vote.voterAccountId, vote);
-            }
-        }
-        
-        const finalVotes = Array.from(voterMap.values());
-        const totalVotingPower = finalVotes.reduce((sum, vote) => sum + vote.votingPower, 0);
-        
-        // Tally votes by token and ratio
-        const tokenTallies: Record<string, Record<number, number>> = {};
-        for (const vote of finalVotes) {
-            for (const ratioChange of vote.ratioChanges) {
-                if (!tokenTallies[ratioChange.token]) {
-                    tokenTallies[ratioChange.token] = {};
-                }
-                if (!tokenTallies[ratioChange.token][ratioChange.newRatio]) {
-                    tokenTallies[ratioChange.token][ratioChange.newRatio] = 0;
-                }
-                tokenTallies[ratioChange.token][ratioChange.newRatio] += vote.votingPower;
-            }
+        const result = tallyVotes(input.votes, input.strategy);
+        if (!input.reconciliation) {
+            return JSON.stringify(result, null, 2);
         }
-        
-        // Determine winners
-        const results: Record<string, {
-            winningRatio: number;
-            winningVotingPower: number;
-            totalOptions: number;
-        }> = {};
-        for (const [token, ratios] of Object.entries(tokenTallies)) {
-            let winningRatio = 0;
-            let winningPower = 0;
-            
-            for (const [ratio, power] of Object.entries(ratios)) {
-                if (power > winningPower) {
-                    winningRatio = parseInt(ratio);
-                    winningPower = power;
-                }
-            }
-            
-            results[token] = {
-                winningRatio,
-                winningVotingPower: winningPower,
-                totalOptions: Object.keys(ratios).length
-            };
-        }
-        
-        return JSON.stringify({
-            totalVotingPower,
-            voterCount: finalVotes.length,
-            tokenResults: results
-        }, null, 2);
+
+        const outcome = reconcileRatios(result, input.votes, input.reconciliation, this.registry.symbols);
+        return JSON.stringify(outcome.success
+            ? { ...result, winningRatios: outcome.ratios, reconciliation: outcome.reconciliation }
+            : { ...result, reconciliation: outcome.reconciliation, error: outcome.reason }, null, 2);
     }
-}
\ No newline at end of file
+}
@@ -1,95 +1,138 @@
 import { z } from 'zod';
 import { StructuredTool } from '@langchain/core/tools';
-import { Client, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
-import { createHash } from 'crypto';
+import { PrivateKey } from '@hashgraph/sdk';
+import { TallyStrategyNameSchema, TokenRatiosSchema } from '../typescript/governance.js';
+import { PolicyOutcomeSchema } from '../typescript/policy.js';
+import { RecordedVoteSchema } from '../typescript/state.js';
+import { TokenRatioSnapshotData } from '../typescript/snapshot.js';
+import { TokenRegistry } from '../governance/token-registry.js';
+import { MessageOutbox } from '../execution/outbox.js';
+import { idempotencyKey } from '../alerts/alert-catalog.js';
+import { signSnapshot, tokenWeightsHash, votesMerkleRoot } from '../governance/snapshot-provenance.js';
+
+export const TokenSnapshotInputSchema = z.object({
+    ratios: TokenRatiosSchema,
+    roundId: z.string().describe('Governance round that decided the ratios'),
+    createdBy: z.string().describe('Account ID that created this snapshot'),
+    votes: z.array(RecordedVoteSchema).describe('Accepted votes of the round'),
+    quorumThreshold: z.number().describe('Voting power the round needed'),
+    tallyStrategy: TallyStrategyNameSchema.describe('Tally strategy that produced the ratios'),
+    contractTransactionId: z.string().optional().describe('Transaction that updated the contract'),
+    policy: PolicyOutcomeSchema.optional().describe('Guardrail policy outcome for the ratios')
+});
+
+export type TokenSnapshotInput = z.infer<typeof TokenSnapshotInputSchema>;
+
+// Tool input with one bounded ratio field per registry token
+function registryInputSchema(registry: TokenRegistry) {
+    return TokenSnapshotInputSchema.extend({ ratios: registry.ratiosSchema() });
+}
+
+export type TokenSnapshotResult =
+    | { success: true; snapshotId: string; delivered: boolean; transactionId?: string; topicId: string; tokenWeights: Record<string, number>; hash: string; votesMerkleRoot: string }
+    | { success: false; error: string; ratios: Record<string, number> };
 
 export class CreateTokenSnapshotTool extends StructuredTool {
     name = 'create_token_snapshot';
     description = 'Create and send a token ratio snapshot based on governance voting results.';
-    schema = z.object({
-        hbarRatio: z.number().min(0).max(100).describe('HBAR token ratio percentage'),
-        wbtcRatio: z.number().min(0).max(100).describe('WBTC token ratio percentage'), 
-        sauceRatio: z.number().min(0).max(100).describe('SAUCE token ratio percentage'),
-        usdcRatio: z.number().min(0).max(100).describe('USDC token ratio percentage'),
-        jamRatio: z.number().min(0).max(100).describe('JAM token ratio percentage'),
-        headstartRatio: z.number().min(0).max(100).describe('HEADSTART token ratio percentage'),
-        sessionId: z.string().describe('Governance session identifier'),
-        createdBy: z.string().describe('Account ID that created this snapshot')
-    });
-
-    constructor(private client: Client) {
+    schema: ReturnType<typeof registryInputSchema>;
+
+    // The snapshot is signed with the key of the creating account and sent through the
+    // outbox, which retries it until delivered
+    constructor(private outbox: MessageOutbox, private registry: TokenRegistry, private topicId: string, private signingKey: PrivateKey) {
         super();
+        this.schema = registryInputSchema(registry);
     }
 
     async _call(input: z.infer<typeof this.schema>): Promise<string> {
-        const { hbarRatio, wbtcRatio, sauceRatio, usdcRatio, jamRatio, headstartRatio, sessionId, createdBy } = input;
+        return JSON.stringify(await this.createSnapshot(input), null, 2);
+    }
+
+    async createSnapshot(input: TokenSnapshotInput): Promise<TokenSnapshotResult> {
+        const { ratios, roundId, createdBy, votes, quorumThreshold, tallyStrategy, contractTransactionId, policy } = input;
         
         try {
-            // Keep token weights as ratios (same as contract values)
-            const tokenWeights = {
-                HBAR: hbarRatio,
-                WBTC: wbtcRatio,
-                SAUCE: sauceRatio,
-                USDC: usdcRatio,
-                JAM: jamRatio,
-                HEADSTART: headstartRatio
-            };
+            const errors = this.registry.validateRatios(ratios);
+            if (errors.length > 0) {
+                throw new Error(errors.join('; '));
+            }
+
+            // Keep token weights as ratios (same as contract values), in registry order
+            const tokenWeights = Object.fromEntries(
+                this.registry.symbols.map(symbol => [symbol, ratios[symbol]])
+            );
 
             // Create hash of token weights for integrity
-            const weightsString = JSON.stringify(tokenWeights, Object.keys(tokenWeights).sort());
-            const hash = createHash('sha256').update(weightsString).digest('hex');
-
-            // Create snapshot data
-            const snapshotData = {
-                snapshot_id: `snapshot_${Date.now()}`,
-                snapshot_type: 'token_ratios' as const,
-                governance_session: sessionId,
+            const hash = tokenWeightsHash(tokenWeights);
+            const totalVotingPower = votes.reduce((total, recorded) => total + recorded.vote.votingPower, 0);
+
+            // Create snapshot data, one per round, signed over everything that decided it
+            const snapshotData: TokenRatioSnapshotData = signSnapshot({
+                snapshot_id: `snapshot_${roundId}`,
+                snapshot_type: 'token_ratios',
+                governance_session: roundId,
+                round_id: roundId,
                 token_weights: tokenWeights,
                 timestamp: new Date(),
                 created_by: createdBy,
-                hash: hash
-            };
+                hash: hash,
+                quorum_reached: totalVotingPower >= quorumThreshold,
+                quorum_threshold: quorumThreshold,
+                total_voting_power: totalVotingPower,
+                voter_count: votes.length,
+                votes_merkle_root: votesMerkleRoot(votes),
+                tally_strategy: tallyStrategy,
+                contract_transaction_id: contractTransactionId,
+                policy: policy && policy.action !== 'blocked' ? {
+                    action: policy.action,
+                    requested_weights: policy.requestedRatios,
+                    violations: policy.violations.map(violation => violation.message)
+                } : undefined
+            }, this.signingKey);
 
             // Wrap in HCS-2 format for non-indexed topic
             const hcs2Message = {
                 p: 'hcs-2',
                 op: 'register', 
-                t_id: process.env.TOKEN_RATIO_SNAPSHOT_TOPIC!,
+                t_id: this.topicId,
                 metadata: JSON.stringify(snapshotData),
                 m: 'Token ratio snapshot from governance voting'
             };
 
-            // Send to snapshot topic
-            const snapshotTopicId = process.env.TOKEN_RATIO_SNAPSHOT_TOPIC!;
-            const transaction = new TopicMessageSubmitTransaction()
-                .setTopicId(snapshotTopicId) 
-                .setMessage(JSON.stringify(hcs2Message));
-
-            const response = await transaction.execute(this.client);
-            const receipt = await response.getReceipt(this.client);
+            // Send to snapshot topic; a snapshot already queued for the round is not sent again
+            const snapshotTopicId = this.topicId;
+            const key = idempotencyKey(roundId, 'snapshot');
+            await this.outbox.enqueue({
+                purpose: 'snapshot',
+                topicId: snapshotTopicId,
+                message: JSON.stringify(hcs2Message),
+                idempotencyKey: key
+            });
+            const queued = this.outbox.find(key);
 
-            const result = {
+            const result: TokenSnapshotResult = {
                 success: true,
                 snapshotId: snapshotData.snapshot_id,
-                transactionId: response.transactionId.toString(),
-                status: receipt.status.toString(),
+                delivered: Boolean(queued?.deliveredAt),
+                transactionId: queued?.transactionId,
                 topicId: snapshotTopicId,
                 tokenWeights: tokenWeights,
-                hash: hash
+                hash: hash,
+                votesMerkleRoot: snapshotData.votes_merkle_root
             };
 
             console.log('📸 Token snapshot created:', result);
-            return JSON.stringify(result, null, 2);
+            return result;
 
         } catch (error) {
-            const errorResult = {
+            const errorResult: TokenSnapshotResult = {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
-                ratios: { hbarRatio, wbtcRatio, sauceRatio, usdcRatio, jamRatio, headstartRatio }
+                ratios
             };
             
             console.error('❌ Snapshot creation failed:', errorResult);
-            return JSON.stringify(errorResult, null, 2);
+            return errorResult;
         }
     }
 }
\ No newline at end of file
@@ -1,79 +1,122 @@
 import { z } from 'zod';
 import { StructuredTool } from '@langchain/core/tools';
-import { Client, ContractExecuteTransaction, ContractFunctionParameters } from '@hashgraph/sdk';
+import { ContractRole, TokenRatios } from '../typescript/governance.js';
+import { TokenRegistry } from '../governance/token-registry.js';
+import { updateFunctionFor } from '../governance/contract-roles.js';
+import { GovernanceExecutor } from '../execution/executor.js';
+
+export type ContractUpdateResult =
+    | { success: true; transactionId: string; status: string; contractId: string; ratios: TokenRatios }
+    | { success: false; error: string; ratios: TokenRatios };
+
+export type ContractScheduleResult =
+    | { success: true; scheduleId: string; transactionId: string; status: string; contractId: string; ratios: TokenRatios }
+    | { success: false; error: string; ratios: TokenRatios };
+
+export interface ContractScheduleOptions {
+    memo: string;
+    payerAccountId?: string;
+    expirationTime?: Date;
+}
 
 export class UpdateLynxContractTool extends StructuredTool {
     name = 'update_lynx_contract';
     description = 'Update the Lynx Token DAO contract with new token ratio weights from governance voting results.';
-    schema = z.object({
-        hbarRatio: z.number().min(0).max(100).describe('HBAR token ratio percentage'),
-        wbtcRatio: z.number().min(0).max(100).describe('WBTC token ratio percentage'), 
-        sauceRatio: z.number().min(0).max(100).describe('SAUCE token ratio percentage'),
-        usdcRatio: z.number().min(0).max(100).describe('USDC token ratio percentage'),
-        jamRatio: z.number().min(0).max(100).describe('JAM token ratio percentage'),
-        headstartRatio: z.number().min(0).max(100).describe('HEADSTART token ratio percentage')
-    });
-
-    constructor(private client: Client) {
+    schema: z.ZodObject<Record<string, z.ZodNumber>>;
+
+    // The update function follows the role the agent holds on the contract
+    constructor(
+        private executor: GovernanceExecutor,
+        private registry: TokenRegistry,
+        private contractId: string,
+        role: ContractRole = 'admin',
+        private functionName: string = updateFunctionFor(role)
+    ) {
         super();
+        this.schema = registry.ratiosSchema();
     }
 
     async _call(input: z.infer<typeof this.schema>): Promise<string> {
-        const { hbarRatio, wbtcRatio, sauceRatio, usdcRatio, jamRatio, headstartRatio } = input;
-        
+        return JSON.stringify(await this.updateRatios(input), null, 2);
+    }
+
+    async updateRatios(ratios: TokenRatios): Promise<ContractUpdateResult> {
         try {
-            // Validate ratios sum to 100
-            const totalRatio = hbarRatio + wbtcRatio + sauceRatio + usdcRatio + jamRatio + headstartRatio;
-            if (Math.abs(totalRatio - 100) > 0.01) {
-                throw new Error(`Token ratios must sum to 100%, got ${totalRatio}%`);
+            // Validate ratios against the registry (all tokens, whole percentages, bounds, sum to 100)
+            const errors = this.registry.validateRatios(ratios);
+            if (errors.length > 0) {
+                throw new Error(errors.join('; '));
             }
 
-            const contractId = process.env.LYNX_CONTRACT!;
-
-            // Execute contract function adminUpdateRatios (admin access instead of governance)
-            const functionParameters = new ContractFunctionParameters()
-                .addUint256(hbarRatio)
-                .addUint256(wbtcRatio)
-                .addUint256(sauceRatio)
-                .addUint256(usdcRatio)
-                .addUint256(jamRatio)
-                .addUint256(headstartRatio);
+            const contractId = this.contractId;
 
-            const contractExecTx = new ContractExecuteTransaction()
-                .setContractId(contractId)
-                .setFunction('adminUpdateRatios', functionParameters)
-                .setGas(1000000); // Increased from 300K to 1M gas
+            const functionParameters = this.registry.toContractParameters(ratios);
 
-            const response = await contractExecTx.execute(this.client);
-            const receipt = await response.getReceipt(this.client);
+            const { transactionId, status } = await this.executor.executeContract({
+                purpose: 'contract_update',
+                contractId,
+                functionName: this.functionName,
+                parameters: functionParameters,
+                gas: 1000000,
+                args: ratios
+            });
 
-            const result = {
+            const result: ContractUpdateResult = {
                 success: true,
-                transactionId: response.transactionId.toString(),
-                status: receipt.status.toString(),
+                transactionId,
+                status,
                 contractId: contractId,
-                ratios: {
-                    HBAR: hbarRatio,
-                    WBTC: wbtcRatio,
-                    SAUCE: sauceRatio,
-                    USDC: usdcRatio,
-                    JAM: jamRatio,
-                    HEADSTART: headstartRatio
-                }
+                ratios
             };
 
             console.log('Contract updated successfully:', result);
-            return JSON.stringify(result, null, 2);
+            return result;
 
         } catch (error) {
-            const errorResult = {
+            const errorResult: ContractUpdateResult = {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
-                ratios: { hbarRatio, wbtcRatio, sauceRatio, usdcRatio, jamRatio, headstartRatio }
+                ratios
             };
             
             console.error('Contract update failed:', errorResult);
-            return JSON.stringify(errorResult, null, 2);
+            return errorResult;
+        }
+    }
+
+    /**
+     * Same update as `updateRatios`, wrapped in a scheduled transaction that runs once
+     * the required signers have signed it.
+     */
+    async scheduleRatios(ratios: TokenRatios, options: ContractScheduleOptions): Promise<ContractScheduleResult> {
+        try {
+            const errors = this.registry.validateRatios(ratios);
+            if (errors.length > 0) {
+                throw new Error(errors.join('; '));
+            }
+
+            const contractId = this.contractId;
+            const { scheduleId, transactionId, status } = await this.executor.scheduleContract({
+                purpose: 'contract_update',
+                contractId,
+                functionName: this.functionName,
+                parameters: this.registry.toContractParameters(ratios),
+                gas: 1000000,
+                args: ratios,
+                ...options
+            });
+
+            const result: ContractScheduleResult = { success: true, scheduleId, transactionId, status, contractId, ratios };
+            console.log('Contract update scheduled:', result);
+            return result;
+        } catch (error) {
+            const errorResult: ContractScheduleResult = {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                ratios
+            };
+            console.error('Contract update could not be scheduled:', errorResult);
+            return errorResult;
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,181 @@
+import { Client, TopicMessage, TopicMessageQuery, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+
+/**
+ * A topic message as the governance flow sees it, independent of the Hedera SDK.
+ */
+export interface ConsensusMessage {
+    topicId: string;
+    sequenceNumber: number;
+    consensusTimestamp: Date;
+    contents: Uint8Array;
+    payerAccountId: string | null;          // Payer of the initial transaction, when known
+}
+
+export interface TransactionResult {
+    transactionId: string;
+    status: string;
+}
+
+export interface SubmitResult extends TransactionResult {
+    sequenceNumber?: number;
+}
+
+export interface Subscription {
+    unsubscribe(): void;
+}
+
+export type MessageHandler = (message: ConsensusMessage) => void | Promise<void>;
+
+/**
+ * Reads and writes consensus topics (HCS on Hedera).
+ */
+export interface ConsensusTransport {
+    subscribe(topicId: string, startTime: Date, onMessage: MessageHandler, onError?: (error: Error) => void): Subscription;
+    submit(topicId: string, message: string | Uint8Array): Promise<SubmitResult>;
+}
+
+export function fromTopicMessage(topicId: string, message: TopicMessage): ConsensusMessage {
+    return {
+        topicId,
+        sequenceNumber: message.sequenceNumber.toNumber(),
+        consensusTimestamp: message.consensusTimestamp.toDate(),
+        contents: message.contents,
+        payerAccountId: message.initialTransactionId?.accountId?.toString() ?? null
+    };
+}
+
+export class HederaConsensusTransport implements ConsensusTransport {
+    constructor(private client: Client) {}
+
+    subscribe(topicId: string, startTime: Date, onMessage: MessageHandler, onError?: (error: Error) => void): Subscription {
+        return new TopicMessageQuery()
+            .setTopicId(topicId)
+            .setStartTime(startTime)
+            .subscribe(
+                this.client,
+                (_message, error) => onError?.(error),
+                message => {
+                    Promise.resolve(onMessage(fromTopicMessage(topicId, message)))
+                        .catch(error => onError?.(error instanceof Error ? error : new Error(String(error))));
+                }
+            );
+    }
+
+    async submit(topicId: string, message: string | Uint8Array): Promise<SubmitResult> {
+        const response = await new TopicMessageSubmitTransaction()
+            .setTopicId(topicId)
+            .setMessage(message)
+            .execute(this.client);
+        const receipt = await response.getReceipt(this.client);
+        return {
+            transactionId: response.transactionId.toString(),
+            status: receipt.status.toString(),
+            sequenceNumber: receipt.topicSequenceNumber?.toNumber()
+        };
+    }
+}
+
+interface InMemorySubscriber {
+    startTime: Date;
+    onMessage: MessageHandler;
+    onError?: (error: Error) => void;
+    delivery: Promise<void>;
+    active: boolean;
+}
+
+/**
+ * Topics held in memory. Messages get per-topic sequence numbers and strictly increasing
+ * consensus timestamps, and `submit` resolves once every subscriber has handled the
+ * message, so offline runs are deterministic.
+ */
+export class InMemoryConsensusTransport implements ConsensusTransport {
+    private topics = new Map<string, ConsensusMessage[]>();
+    private subscribers = new Map<string, InMemorySubscriber[]>();
+    private lastTimestamp = 0;
+    private transactionCount = 0;
+
+    constructor(
+        private operatorAccountId: string | null = null,
+        private clock: () => Date = () => new Date()
+    ) {}
+
+    messages(topicId: string): ConsensusMessage[] {
+        return [...(this.topics.get(topicId) ?? [])];
+    }
+
+    /**
+     * Settles once every subscriber has handled the messages delivered to it, including
+     * subscriptions opened while waiting (e.g. to deliver held messages again).
+     */
+    async idle(): Promise<void> {
+        let deliveries: Promise<void>[] = [];
+        let current = this.deliveries();
+        while (current.length !== deliveries.length || current.some((delivery, index) => delivery !== deliveries[index])) {
+            deliveries = current;
+            await Promise.all(deliveries);
+            current = this.deliveries();
+        }
+    }
+
+    private deliveries(): Promise<void>[] {
+        return [...this.subscribers.values()].flat().map(subscriber => subscriber.delivery);
+    }
+
+    subscribe(topicId: string, startTime: Date, onMessage: MessageHandler, onError?: (error: Error) => void): Subscription {
+        const subscriber: InMemorySubscriber = { startTime, onMessage, onError, delivery: Promise.resolve(), active: true };
+        const subscribers = this.subscribers.get(topicId) ?? [];
+        subscribers.push(subscriber);
+        this.subscribers.set(topicId, subscribers);
+
+        for (const message of this.topics.get(topicId) ?? []) {
+            this.deliver(subscriber, message);
+        }
+
+        return { unsubscribe: () => { subscriber.active = false; } };
+    }
+
+    submit(topicId: string, message: string | Uint8Array): Promise<SubmitResult> {
+        return this.submitAs(this.operatorAccountId, topicId, message);
+    }
+
+    /**
+     * Submit as another payer, optionally at a given consensus time (still kept strictly
+     * increasing), e.g. to play back votes from several accounts.
+     */
+    async submitAs(payerAccountId: string | null, topicId: string, message: string | Uint8Array, at?: Date): Promise<SubmitResult> {
+        const messages = this.topics.get(topicId) ?? [];
+        this.topics.set(topicId, messages);
+
+        this.lastTimestamp = Math.max((at ?? this.clock()).getTime(), this.lastTimestamp + 1);
+        const consensusMessage: ConsensusMessage = {
+            topicId,
+            sequenceNumber: messages.length + 1,
+            consensusTimestamp: new Date(this.lastTimestamp),
+            contents: typeof message === 'string' ? Buffer.from(message, 'utf8') : message,
+            payerAccountId
+        };
+        messages.push(consensusMessage);
+
+        const deliveries = (this.subscribers.get(topicId) ?? []).map(subscriber => this.deliver(subscriber, consensusMessage));
+        await Promise.all(deliveries);
+
+        this.transactionCount += 1;
+        return {
+            transactionId: `${payerAccountId ?? '0.0.0'}@memory-${this.transactionCount}`,
+            status: 'SUCCESS',
+            sequenceNumber: consensusMessage.sequenceNumber
+        };
+    }
+
+    private deliver(subscriber: InMemorySubscriber, message: ConsensusMessage): Promise<void> {
+        subscriber.delivery = subscriber.delivery.then(async () => {
+            if (!subscriber.active || message.consensusTimestamp < subscriber.startTime) return;
+            try {
+                await subscriber.onMessage(message);
+            } catch (error) {
+                subscriber.onError?.(error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+        return subscriber.delivery;
+    }
+}
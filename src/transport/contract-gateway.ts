@@ -0,0 +1,96 @@
+import { Client, ContractCallQuery, ContractExecuteTransaction, ContractFunctionParameters } from '@hashgraph/sdk';
+import { TransactionResult } from './consensus-transport.js';
+
+export interface ContractRequest {
+    contractId: string;
+    functionName: string;
+    parameters?: ContractFunctionParameters;
+    gas: number;
+}
+
+/**
+ * Executes and queries smart contracts. `call` returns the raw ABI-encoded result.
+ */
+export interface ContractGateway {
+    execute(request: ContractRequest): Promise<TransactionResult>;
+    call(request: ContractRequest): Promise<Uint8Array>;
+}
+
+/**
+ * Hex of the ABI-encoded call: function selector followed by the parameters.
+ */
+export function encodeCallData(functionName: string, parameters?: ContractFunctionParameters): string {
+    return Buffer.from((parameters ?? new ContractFunctionParameters())._build(functionName)).toString('hex');
+}
+
+export class HederaContractGateway implements ContractGateway {
+    constructor(private client: Client) {}
+
+    async execute(request: ContractRequest): Promise<TransactionResult> {
+        const response = await new ContractExecuteTransaction()
+            .setContractId(request.contractId)
+            .setFunction(request.functionName, request.parameters)
+            .setGas(request.gas)
+            .execute(this.client);
+        const receipt = await response.getReceipt(this.client);
+        return { transactionId: response.transactionId.toString(), status: receipt.status.toString() };
+    }
+
+    async call(request: ContractRequest): Promise<Uint8Array> {
+        const result = await new ContractCallQuery()
+            .setContractId(request.contractId)
+            .setFunction(request.functionName, request.parameters)
+            .setGas(request.gas)
+            .execute(this.client);
+        return result.bytes;
+    }
+}
+
+export interface RecordedContractCall {
+    kind: 'execute' | 'call';
+    contractId: string;
+    functionName: string;
+    gas: number;
+    callData: string;
+    timestamp: Date;
+}
+
+/**
+ * Records contract executions and queries in memory. Queries are answered by handlers
+ * registered per function name; an execute handler can throw to simulate a revert.
+ */
+export class InMemoryContractGateway implements ContractGateway {
+    readonly calls: RecordedContractCall[] = [];
+    readonly callHandlers = new Map<string, (request: ContractRequest) => Uint8Array>();
+    executeHandler?: (request: ContractRequest) => void;
+
+    get executions(): RecordedContractCall[] {
+        return this.calls.filter(call => call.kind === 'execute');
+    }
+
+    async execute(request: ContractRequest): Promise<TransactionResult> {
+        this.record('execute', request);
+        this.executeHandler?.(request);
+        return { transactionId: `contract@memory-${this.calls.length}`, status: 'SUCCESS' };
+    }
+
+    async call(request: ContractRequest): Promise<Uint8Array> {
+        this.record('call', request);
+        const handler = this.callHandlers.get(request.functionName);
+        if (!handler) {
+            throw new Error(`No in-memory result for ${request.functionName} on ${request.contractId}`);
+        }
+        return handler(request);
+    }
+
+    private record(kind: RecordedContractCall['kind'], request: ContractRequest): void {
+        this.calls.push({
+            kind,
+            contractId: request.contractId,
+            functionName: request.functionName,
+            gas: request.gas,
+            callData: encodeCallData(request.functionName, request.parameters),
+            timestamp: new Date()
+        });
+    }
+}
@@ -0,0 +1,166 @@
+import {
+    AccountId,
+    Client,
+    ContractExecuteTransaction,
+    PublicKey,
+    ScheduleCreateTransaction,
+    ScheduleId,
+    ScheduleInfo,
+    ScheduleInfoQuery,
+    Status,
+    StatusError,
+    Timestamp
+} from '@hashgraph/sdk';
+import { ContractGateway, ContractRequest, encodeCallData } from './contract-gateway.js';
+
+export interface ScheduleRequest extends ContractRequest {
+    memo: string;
+    // Account the scheduled call is paid by and sent from; its key decides who has to sign
+    payerAccountId?: string;
+    expirationTime?: Date;
+}
+
+export interface ScheduleCreated {
+    scheduleId: string;
+    transactionId: string;
+    status: string;
+}
+
+export interface ScheduleStatus {
+    scheduleId: string;
+    signatories: string[];                       // Raw public keys that have signed so far
+    expirationTime?: Date;
+    executedAt?: Date;
+    deletedAt?: Date;
+    scheduledTransactionId?: string;             // Transaction the network ran on execution
+}
+
+/**
+ * Wraps contract calls in scheduled transactions that execute once the required keys
+ * have signed. `getStatus` returns null once the network no longer knows the schedule,
+ * e.g. after it expired.
+ */
+export interface ScheduleGateway {
+    create(request: ScheduleRequest): Promise<ScheduleCreated>;
+    getStatus(scheduleId: string): Promise<ScheduleStatus | null>;
+}
+
+export class HederaScheduleGateway implements ScheduleGateway {
+    constructor(private client: Client) {}
+
+    async create(request: ScheduleRequest): Promise<ScheduleCreated> {
+        const call = new ContractExecuteTransaction()
+            .setContractId(request.contractId)
+            .setFunction(request.functionName, request.parameters)
+            .setGas(request.gas);
+        const transaction = new ScheduleCreateTransaction()
+            .setScheduledTransaction(call)
+            .setScheduleMemo(request.memo);
+        if (request.payerAccountId) {
+            transaction.setPayerAccountId(AccountId.fromString(request.payerAccountId));
+        }
+        if (request.expirationTime) {
+            transaction.setExpirationTime(Timestamp.fromDate(request.expirationTime));
+        }
+
+        const response = await transaction.execute(this.client);
+        // Creating an identical schedule again returns the existing schedule ID
+        const receipt = await response.getReceiptQuery().setValidateStatus(false).execute(this.client);
+        if (receipt.status !== Status.Success && receipt.status !== Status.IdenticalScheduleAlreadyCreated) {
+            throw new Error(`Schedule create failed with status ${receipt.status.toString()}`);
+        }
+        return {
+            scheduleId: receipt.scheduleId!.toString(),
+            transactionId: response.transactionId.toString(),
+            status: receipt.status.toString()
+        };
+    }
+
+    async getStatus(scheduleId: string): Promise<ScheduleStatus | null> {
+        let info: ScheduleInfo;
+        try {
+            info = await new ScheduleInfoQuery()
+                .setScheduleId(ScheduleId.fromString(scheduleId))
+                .execute(this.client);
+        } catch (error) {
+            if (error instanceof StatusError && error.status === Status.InvalidScheduleId) {
+                return null;
+            }
+            throw error;
+        }
+
+        return {
+            scheduleId,
+            signatories: (info.signers?.toArray() ?? [])
+                .filter((key): key is PublicKey => key instanceof PublicKey)
+                .map(key => key.toStringRaw()),
+            expirationTime: info.expirationTime?.toDate(),
+            executedAt: info.executed?.toDate(),
+            deletedAt: info.deleted?.toDate(),
+            scheduledTransactionId: info.scheduledTransactionId?.toString()
+        };
+    }
+}
+
+interface InMemorySchedule {
+    request: ScheduleRequest;
+    status: ScheduleStatus;
+}
+
+/**
+ * Keeps schedules in memory. Signatures are added with `sign`; once `threshold` of the
+ * `requiredKeys` have signed, the call is executed through the contract gateway.
+ */
+export class InMemoryScheduleGateway implements ScheduleGateway {
+    private schedules = new Map<string, InMemorySchedule>();
+
+    constructor(private contracts: ContractGateway, private requiredKeys: string[], private threshold: number = requiredKeys.length) {}
+
+    async create(request: ScheduleRequest): Promise<ScheduleCreated> {
+        const identical = [...this.schedules.values()].find(schedule => sameSchedule(schedule.request, request));
+        if (identical) {
+            return { scheduleId: identical.status.scheduleId, transactionId: `schedule@memory-${this.schedules.size}`, status: 'IDENTICAL_SCHEDULE_ALREADY_CREATED' };
+        }
+
+        const scheduleId = `0.0.${9600 + this.schedules.size + 1}`;
+        this.schedules.set(scheduleId, {
+            request,
+            status: { scheduleId, signatories: [], expirationTime: request.expirationTime }
+        });
+        return { scheduleId, transactionId: `schedule@memory-${this.schedules.size}`, status: 'SUCCESS' };
+    }
+
+    async getStatus(scheduleId: string): Promise<ScheduleStatus | null> {
+        const schedule = this.schedules.get(scheduleId);
+        return schedule ? { ...schedule.status, signatories: [...schedule.status.signatories] } : null;
+    }
+
+    async sign(scheduleId: string, publicKey: string, at: Date = new Date()): Promise<void> {
+        const schedule = this.schedules.get(scheduleId);
+        if (!schedule) {
+            throw new Error(`Unknown schedule ${scheduleId}`);
+        }
+        const { status } = schedule;
+        if (status.executedAt || status.deletedAt) {
+            return;
+        }
+        if (!status.signatories.includes(publicKey)) {
+            status.signatories.push(publicKey);
+        }
+
+        const signed = this.requiredKeys.filter(key => status.signatories.includes(key)).length;
+        if (signed >= this.threshold) {
+            const { transactionId } = await this.contracts.execute(schedule.request);
+            status.executedAt = at;
+            status.scheduledTransactionId = transactionId;
+        }
+    }
+}
+
+function sameSchedule(a: ScheduleRequest, b: ScheduleRequest): boolean {
+    return a.memo === b.memo
+        && a.contractId === b.contractId
+        && a.payerAccountId === b.payerAccountId
+        && a.expirationTime?.getTime() === b.expirationTime?.getTime()
+        && encodeCallData(a.functionName, a.parameters) === encodeCallData(b.functionName, b.parameters);
+}
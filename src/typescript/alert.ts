@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ContractRoleSchema } from './governance.js';
 
 export const AlertSchema = z.object({
   title: z.string(),
@@ -7,4 +8,203 @@ export const AlertSchema = z.object({
   timestamp: z.date()
 });
 
-export type Alert = z.infer<typeof AlertSchema>;
\ No newline at end of file
+export type Alert = z.infer<typeof AlertSchema>;
+
+export const ALERT_SCHEMA_VERSION = 1;
+
+// Dashboard alerts are AlertSchema plus a versioned, typed event payload
+const GovernanceAlertBaseSchema = AlertSchema.extend({
+  version: z.literal(ALERT_SCHEMA_VERSION),
+  roundId: z.string(),
+  idempotencyKey: z.string(),                   // Stable per round and event, for consumer dedupe
+  timestamp: z.coerce.date()
+});
+
+const RatiosSchema = z.record(z.string(), z.number());
+
+export const GovernanceAlertSchema = z.discriminatedUnion('event', [
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('VoteReceived'),
+    data: z.object({
+      sequenceNumber: z.number(),               // HCS sequence number of the vote message
+      voterAccountId: z.string(),
+      votingPower: z.number(),
+      totalVotingPower: z.number(),             // Running total for the round after this vote
+      quorumThreshold: z.number(),
+      replacedSequenceNumber: z.number().optional() // The voter's earlier vote this one replaced
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('VoteRejected'),
+    data: z.object({
+      sequenceNumber: z.number(),
+      code: z.string(),                         // VoteRejectionCode
+      reason: z.string(),
+      voterAccountId: z.string().optional()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('QuorumReached'),
+    data: z.object({
+      totalVotingPower: z.number(),
+      quorumThreshold: z.number(),
+      voterCount: z.number(),
+      rejections: z.record(z.string(), z.number()) // Rejected messages per VoteRejectionCode
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('RatiosReconciled'),
+    data: z.object({
+      policy: z.string(),
+      originalTotal: z.number(),
+      ratios: RatiosSchema
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('PolicyClamped'),
+    data: z.object({
+      requested: RatiosSchema,                  // Reconciled winners
+      ratios: RatiosSchema,                     // Ratios sent to the contract instead
+      violations: z.array(z.string())
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('PolicyBlocked'),
+    data: z.object({
+      requested: RatiosSchema,
+      violations: z.array(z.string()),
+      reason: z.string()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ExecutionPending'),
+    data: z.object({
+      ratios: RatiosSchema,
+      eta: z.coerce.date(),                     // Earliest contract update, guardians may veto until then
+      guardians: z.array(z.string()),
+      controlTopicId: z.string()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ExecutionVetoed'),
+    data: z.object({
+      guardianAccountId: z.string(),
+      reason: z.string().optional(),
+      ratios: RatiosSchema
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ScheduleCreated'),
+    data: z.object({
+      role: ContractRoleSchema,                 // Role the agent updates the contract with
+      scheduleId: z.string(),
+      transactionId: z.string(),
+      ratios: RatiosSchema,
+      signers: z.array(z.string()),
+      payerAccountId: z.string().optional(),
+      expirationTime: z.coerce.date().optional()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ScheduleSigned'),
+    data: z.object({
+      scheduleId: z.string(),
+      signerAccountId: z.string(),
+      signedBy: z.array(z.string()),            // Every tracked signer that has signed so far
+      signers: z.array(z.string())
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ScheduleExecuted'),
+    data: z.object({
+      scheduleId: z.string(),
+      scheduledTransactionId: z.string().optional(),
+      signedBy: z.array(z.string())
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ScheduleExpired'),
+    data: z.object({
+      scheduleId: z.string(),
+      reason: z.string(),
+      signedBy: z.array(z.string()),
+      signers: z.array(z.string())
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ContractUpdated'),
+    data: z.object({
+      role: ContractRoleSchema,
+      contractId: z.string(),
+      transactionId: z.string().optional(),     // Unknown when the agent restarted before the receipt
+      ratios: RatiosSchema
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ContractUpdateFailed'),
+    data: z.object({
+      role: ContractRoleSchema,
+      contractId: z.string(),
+      error: z.string(),
+      ratios: RatiosSchema
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ContractUnchanged'),
+    data: z.object({
+      role: ContractRoleSchema,
+      contractId: z.string(),
+      ratios: RatiosSchema                      // Already on the contract, so no update was sent
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('ContractVerificationFailed'),
+    data: z.object({
+      role: ContractRoleSchema,
+      contractId: z.string(),
+      transactionId: z.string(),
+      expected: RatiosSchema,
+      actual: RatiosSchema.optional(),          // Missing when the ratios could not be read back
+      error: z.string()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('SnapshotPublished'),
+    data: z.object({
+      snapshotId: z.string(),
+      topicId: z.string(),
+      transactionId: z.string(),
+      hash: z.string(),
+      votesMerkleRoot: z.string()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('RoundExpired'),
+    data: z.object({
+      votingDeadline: z.coerce.date(),
+      totalVotingPower: z.number(),
+      quorumThreshold: z.number(),
+      rejections: z.record(z.string(), z.number()) // Rejected messages per VoteRejectionCode
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('RoundFailed'),
+    data: z.object({
+      reason: z.string()
+    })
+  }),
+  GovernanceAlertBaseSchema.extend({
+    event: z.literal('OutboxDeadLettered'),
+    data: z.object({
+      idempotencyKey: z.string(),               // Key of the message that is no longer retried
+      purpose: z.string(),
+      topicId: z.string(),
+      attempts: z.number(),
+      lastError: z.string().optional()
+    })
+  })
+]);
+
+export type GovernanceAlert = z.infer<typeof GovernanceAlertSchema>;
+export type GovernanceAlertEvent = GovernanceAlert['event'];
+export type GovernanceAlertData<E extends GovernanceAlertEvent> = Extract<GovernanceAlert, { event: E }>['data'];
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { TokenRatiosSchema } from './governance.js';
+
+export const ExecutionStepSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('contract_execute'),
+    step: z.number(),                           // Position in the plan
+    purpose: z.string(),                        // What the flow was doing, e.g. contract_update
+    contractId: z.string(),
+    functionName: z.string(),
+    gas: z.number(),
+    callData: z.string(),                       // Hex of the encoded call (selector + ContractFunctionParameters)
+    args: z.record(z.string(), z.unknown()).optional(), // Readable arguments behind callData
+  }),
+  z.object({
+    kind: z.literal('schedule_create'),
+    step: z.number(),
+    purpose: z.string(),                        // e.g. contract_update
+    contractId: z.string(),
+    functionName: z.string(),
+    gas: z.number(),
+    callData: z.string(),                       // Hex of the scheduled call
+    memo: z.string(),
+    payerAccountId: z.string().optional(),      // Account the scheduled call is sent from
+    expirationTime: z.coerce.date().optional(),
+    args: z.record(z.string(), z.unknown()).optional(),
+  }),
+  z.object({
+    kind: z.literal('topic_message'),
+    step: z.number(),
+    purpose: z.string(),                        // e.g. snapshot, dashboard_alert, balancer_alert
+    topicId: z.string(),
+    message: z.string(),                        // Exact message body that would be submitted
+  }),
+]);
+
+export type ExecutionStep = z.infer<typeof ExecutionStepSchema>;
+
+export const ExecutionPlanSchema = z.object({
+  mode: z.literal('dry-run'),
+  startedAt: z.coerce.date(),
+  steps: z.array(ExecutionStepSchema),
+});
+
+export type ExecutionPlan = z.infer<typeof ExecutionPlanSchema>;
+
+export const ScheduledExecutionSchema = z.object({
+  scheduleId: z.string().optional(),            // Set once the schedule is created
+  transactionId: z.string().optional(),         // Schedule create transaction
+  ratios: TokenRatiosSchema,
+  createdAt: z.coerce.date(),
+  expirationTime: z.coerce.date().optional(),   // Kept so a retried create is identical to the first
+  signers: z.array(z.string()),                 // Signer accounts being tracked
+  signedBy: z.array(z.string()),                // Signers whose signature is on the schedule
+  executedAt: z.coerce.date().optional(),
+  scheduledTransactionId: z.string().optional(), // Transaction the network ran on execution
+});
+
+export type ScheduledExecution = z.infer<typeof ScheduledExecutionSchema>;
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+// Keyed by token symbol from the token registry (config/tokens.json)
+export const TokenRatiosSchema = z.record(z.string(), z.number().min(0).max(100))
+  .describe('Token ratio percentages keyed by token symbol');
+
+export type TokenRatios = z.infer<typeof TokenRatiosSchema>;
+
+export const TallyStrategyNameSchema = z.enum([
+  'plurality',                                  // Per token, the ratio with the most voting power wins
+  'weighted-mean',                              // Per token, the power-weighted mean of proposed ratios
+  'weighted-median',                            // Per token, the power-weighted median of proposed ratios
+  'quadratic',                                  // Plurality with each voter weighted by sqrt(voting power)
+  'whole-allocation',                           // The complete ratio vector with the most voting power wins
+]);
+
+export type TallyStrategyName = z.infer<typeof TallyStrategyNameSchema>;
+
+export const ContractRoleSchema = z.enum([
+  'governance',                                 // GOVERNANCE role, updates through updateRatios
+  'admin',                                      // ADMIN role, updates through adminUpdateRatios
+]);
+
+export type ContractRole = z.infer<typeof ContractRoleSchema>;
+
+export const TokenResultSchema = z.object({
+  winningRatio: z.number(),                     // Ratio chosen by the tally strategy
+  winningVotingPower: z.number(),               // Power behind the winning ratio (all power on the token for mean/median)
+  totalOptions: z.number(),                     // Distinct ratios (or whole allocations) proposed
+});
+
+export type TokenResult = z.infer<typeof TokenResultSchema>;
+
+export const ReconciliationPolicySchema = z.enum([
+  'normalize',                                  // Scale winners proportionally to 100, largest-remainder rounding to integers
+  'best-allocation',                            // Fall back to the whole ratio vector with the most voting power
+  'fail',                                       // Fail the round
+]);
+
+export type ReconciliationPolicy = z.infer<typeof ReconciliationPolicySchema>;
+
+export const ReconciliationSchema = z.object({
+  policy: ReconciliationPolicySchema,           // Policy that ran
+  adjusted: z.boolean(),                        // Whether the tallied winners had to be changed
+  originalTotal: z.number(),                    // Sum of the tallied winners before reconciliation
+});
+
+export type Reconciliation = z.infer<typeof ReconciliationSchema>;
+
+export const GovernanceResultSchema = z.object({
+  totalVotingPower: z.number(),
+  voterCount: z.number(),
+  tallyStrategy: TallyStrategyNameSchema,
+  tokenResults: z.record(z.string(), TokenResultSchema),   // Keyed by token symbol
+  winningRatios: z.record(z.string(), z.number()).optional(), // Reconciled integer ratios summing to 100
+  reconciliation: ReconciliationSchema.optional(),
+});
+
+export type GovernanceResult = z.infer<typeof GovernanceResultSchema>;
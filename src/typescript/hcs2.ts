@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const HCS2MessageSchema = z.object({
+  p: z.literal('hcs-2'),
+  op: z.literal('register'),
+  t_id: z.string(),
+  metadata: z.string(),
+  m: z.string().optional()
+});
+
+export type HCS2Message = z.infer<typeof HCS2MessageSchema>;
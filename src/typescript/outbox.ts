@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const OutboxMessageSchema = z.object({
+  idempotencyKey: z.string(),                   // Round ID + event type, also carried in the message body
+  purpose: z.string(),                          // e.g. dashboard_alert, balancer_alert
+  topicId: z.string(),
+  message: z.string(),                          // Exact message body to submit
+  createdAt: z.coerce.date(),
+  attempts: z.number(),
+  nextAttemptAt: z.coerce.date(),
+  lastError: z.string().optional(),
+  deliveredAt: z.coerce.date().optional(),      // Set once a receipt confirms the submission
+  transactionId: z.string().optional(),
+  deadLetteredAt: z.coerce.date().optional(),   // Set when it is moved to the dead letters
+});
+
+export type OutboxMessage = z.infer<typeof OutboxMessageSchema>;
+
+export const OutboxSchema = z.object({
+  messages: z.array(OutboxMessageSchema),
+  deadLetters: z.array(OutboxMessageSchema).default([]),  // Gave up after the maximum attempts
+});
+
+export type Outbox = z.infer<typeof OutboxSchema>;
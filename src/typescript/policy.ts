@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { TokenRatiosSchema } from './governance.js';
+
+export const PolicyViolationActionSchema = z.enum([
+  'clamp',                                      // Move the ratios to the nearest allocation that passes
+  'block',                                      // Fail the round
+]);
+
+export type PolicyViolationAction = z.infer<typeof PolicyViolationActionSchema>;
+
+export const RatioPolicyConfigSchema = z.object({
+  onViolation: PolicyViolationActionSchema.default('block'),
+  // Narrow the token registry's minRatio/maxRatio per token symbol
+  bounds: z.record(z.string(), z.object({
+    min: z.number().min(0).max(100).optional(),
+    max: z.number().min(0).max(100).optional(),
+  })).default({}),
+  minAllocations: z.record(z.string(), z.number().min(0).max(100)).default({}), // Required minimum per token, e.g. USDC: 10
+  maxChangePerRound: z.number().min(0).max(100).optional(), // Largest change of any token's ratio, in percentage points
+  maxTurnover: z.number().min(0).max(100).optional(),       // Largest half-sum of absolute changes, in percentage points
+});
+
+export type RatioPolicyConfig = z.infer<typeof RatioPolicyConfigSchema>;
+
+export const PolicyRuleSchema = z.enum(['bounds', 'min_allocation', 'max_change', 'max_turnover']);
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+
+export const PolicyViolationSchema = z.object({
+  rule: PolicyRuleSchema,
+  token: z.string().optional(),                 // Missing for portfolio-wide rules
+  message: z.string(),
+});
+
+export type PolicyViolation = z.infer<typeof PolicyViolationSchema>;
+
+export const PolicyOutcomeSchema = z.object({
+  action: z.enum(['passed', 'clamped', 'blocked']),
+  violations: z.array(PolicyViolationSchema),   // Found in the requested ratios
+  requestedRatios: TokenRatiosSchema,           // Reconciled winners the policy checked
+  previousRatios: TokenRatiosSchema.optional(), // On-chain ratios the change limits were measured from
+  ratios: TokenRatiosSchema.optional(),         // Ratios to execute, missing when blocked
+  reason: z.string().optional(),                // Why the round was blocked
+});
+
+export type PolicyOutcome = z.infer<typeof PolicyOutcomeSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { VoteRejectionSchema } from './vote.js';
+
+export const VoteReceiptStatusSchema = z.enum([
+  'ACCEPTED',                                   // Counted as the voter's first vote of the round
+  'SUPERSEDED_PREVIOUS',                        // Counted, replacing the voter's earlier vote
+  'REJECTED',                                   // Not counted, see rejection
+]);
+
+export type VoteReceiptStatus = z.infer<typeof VoteReceiptStatusSchema>;
+
+export const VoteReceiptSchema = z.object({
+  type: z.literal('VOTE_RECEIPT'),
+  version: z.literal(1),
+  roundId: z.string(),
+  sequenceNumber: z.number(),                   // HCS sequence number of the vote message
+  consensusTimestamp: z.coerce.date(),
+  voterAccountId: z.string().optional(),        // Claimed voter; absent when the message could not be parsed
+  status: VoteReceiptStatusSchema,
+  supersededSequenceNumber: z.number().optional(), // The voter's earlier vote that no longer counts
+  rejection: VoteRejectionSchema.omit({ details: true }).optional(),
+  effectivePower: z.number(),                   // Voting power counted for this vote, 0 when rejected
+  claimedPower: z.number().optional(),          // Self-reported power when it was clamped to the verified power
+  roundTotalPower: z.number(),                  // Running total for the round after this vote
+  quorumThreshold: z.number(),
+});
+
+export type VoteReceipt = z.infer<typeof VoteReceiptSchema>;
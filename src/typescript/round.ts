@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { ReconciliationPolicySchema, TallyStrategyNameSchema } from './governance.js';
+
+export const RoundStatusSchema = z.enum([
+  'OPEN',                                       // Accepting votes until quorum or the voting deadline
+  'QUORUM_REACHED',                             // Quorum met, votes no longer counted
+  'TALLIED',                                    // Winning ratios calculated, contract not yet updated
+  'TIMELOCKED',                                 // Waiting out the timelock, guardians may still veto
+  'SCHEDULED',                                  // Contract update scheduled, waiting for signatures
+  'EXECUTED',                                   // Contract updated with the winning ratios
+  'FAILED',                                     // Tally or execution failed
+  'EXPIRED',                                    // Voting deadline passed without quorum
+  'VETOED',                                     // A guardian vetoed the pending execution
+  'REPLAYED',                                   // Reached quorum in history replayed at startup, not executed again
+]);
+
+export type RoundStatus = z.infer<typeof RoundStatusSchema>;
+
+export const QuorumRuleSchema = z.object({
+  threshold: z.number().positive(),             // Minimum total voting power for a valid result
+});
+
+export type QuorumRule = z.infer<typeof QuorumRuleSchema>;
+
+export const GovernanceRoundSchema = z.object({
+  id: z.string(),
+  startTime: z.coerce.date(),
+  votingDeadline: z.coerce.date(),
+  quorum: QuorumRuleSchema,
+  tallyStrategy: TallyStrategyNameSchema.default('plurality'),
+  reconciliationPolicy: ReconciliationPolicySchema.default('normalize'),
+  status: RoundStatusSchema,
+  closedAt: z.coerce.date().optional(),         // When the round reached a final status
+  failureReason: z.string().optional(),         // Why the round FAILED, EXPIRED or was VETOED
+});
+
+export type GovernanceRound = z.infer<typeof GovernanceRoundSchema>;
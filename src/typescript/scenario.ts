@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { VoteReceiptStatusSchema } from './receipt.js';
+import { ReconciliationPolicySchema, TallyStrategyNameSchema, TokenRatiosSchema } from './governance.js';
+import { RoundStatusSchema } from './round.js';
+import { RatioPolicyConfigSchema } from './policy.js';
+
+// Offset from the start of the round: seconds, or "30s" / "5m" / "2h"
+export const ScenarioOffsetSchema = z.union([
+  z.number().min(0),
+  z.string().regex(/^\d+(\.\d+)?(s|m|h)$/),
+]);
+
+export type ScenarioOffset = z.infer<typeof ScenarioOffsetSchema>;
+
+export const ScenarioVoterSchema = z.object({
+  account: z.string().regex(/^0\.0\.\d+$/),
+  power: z.number().min(0),                     // Voting power the voter claims
+  balance: z.number().min(0).optional(),        // Verified governance token balance (defaults to power)
+});
+
+export type ScenarioVoter = z.infer<typeof ScenarioVoterSchema>;
+
+export const ScenarioVoteMessageSchema = z.object({
+  voter: z.string().regex(/^0\.0\.\d+$/),       // Must be one of the scenario voters
+  ratios: TokenRatiosSchema,                    // Ratio per token symbol
+  at: ScenarioOffsetSchema.optional(),          // Defaults to one second after the previous message
+  power: z.number().min(0).optional(),          // Claimed power override for this vote
+  payer: z.string().optional(),                 // Submitting account (defaults to the voter)
+  reason: z.string().optional(),
+  castAt: ScenarioOffsetSchema.optional(),      // Vote timestamp (defaults to at)
+  topic: z.string().optional(),                 // HCS-2 t_id (defaults to the voting topic)
+});
+
+export const ScenarioRawMessageSchema = z.object({
+  raw: z.string(),                              // Sent as-is, e.g. malformed JSON or a bad HCS-2 envelope
+  at: ScenarioOffsetSchema.optional(),
+  payer: z.string().optional(),
+});
+
+export const ScenarioVetoMessageSchema = z.object({
+  veto: z.string().regex(/^0\.0\.\d+$/),        // Guardian the veto is sent for, on the control topic
+  at: ScenarioOffsetSchema.optional(),
+  reason: z.string().optional(),
+  payer: z.string().optional(),                 // Submitting account (defaults to the guardian)
+  signedBy: z.string().optional(),              // Guardian whose key signs it (defaults to the guardian)
+});
+
+export const ScenarioSignMessageSchema = z.object({
+  sign: z.string().regex(/^0\.0\.\d+$/),        // Signer that signs the pending schedule (not a topic message)
+  at: ScenarioOffsetSchema.optional(),
+});
+
+export const ScenarioTransferMessageSchema = z.object({
+  transfer: z.object({                          // Governance tokens moved between accounts (not a topic message)
+    from: z.string().regex(/^0\.0\.\d+$/),
+    to: z.string().regex(/^0\.0\.\d+$/),
+    amount: z.number().positive(),
+  }),
+  at: ScenarioOffsetSchema.optional(),
+});
+
+export const ScenarioMessageSchema = z.union([
+  ScenarioVoteMessageSchema,
+  ScenarioRawMessageSchema,
+  ScenarioVetoMessageSchema,
+  ScenarioSignMessageSchema,
+  ScenarioTransferMessageSchema,
+]);
+
+export type ScenarioMessage = z.infer<typeof ScenarioMessageSchema>;
+
+export const ScenarioExpectationSchema = z.object({
+  status: RoundStatusSchema.optional(),         // Status the first round ends in
+  winningRatios: TokenRatiosSchema.optional(),
+  contractCall: z.object({
+    functionName: z.string().default('adminUpdateRatios'),
+    ratios: TokenRatiosSchema.optional(),       // Arguments, by token symbol
+  }).nullable().optional(),                     // null: no contract call may be made
+  alerts: z.array(z.string()).optional(),       // Each must appear in a sent alert, in this order
+  rejections: z.record(z.string(), z.number()).optional(), // Rejected message count per code, from the round statistics
+  receipts: z.record(VoteReceiptStatusSchema, z.number()).optional(), // Published vote receipt count per status
+  startupError: z.string().optional(),          // The agent must refuse to start with this error
+});
+
+export type ScenarioExpectation = z.infer<typeof ScenarioExpectationSchema>;
+
+export const ScenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  round: z.object({
+    quorumThreshold: z.number().positive(),
+    durationHours: z.number().positive().default(24),
+    tallyStrategy: TallyStrategyNameSchema.default('plurality'),
+    reconciliationPolicy: ReconciliationPolicySchema.default('normalize'),
+    votingPowerPolicy: z.enum(['reject', 'clamp']).default('reject'),
+  }),
+  contract: z.object({
+    ratios: TokenRatiosSchema.optional(),       // On-chain ratios before the round (defaults to all 0)
+    ignoreUpdates: z.boolean().default(false),  // Accept updates without changing the ratios
+    role: z.enum(['governance', 'admin', 'none']).default('admin'), // Role the agent's account holds
+  }).default({}),
+  policy: RatioPolicyConfigSchema.default({}),  // Guardrails (none unless given)
+  timelock: z.object({
+    delayHours: z.number().positive(),
+    guardians: z.array(z.string().regex(/^0\.0\.\d+$/)).min(1),
+  }).optional(),                                // Execution timelock (none unless given)
+  execution: z.object({
+    signers: z.array(z.string().regex(/^0\.0\.\d+$/)).min(1),
+    threshold: z.number().int().positive().optional(), // Signatures that execute the schedule (defaults to all signers)
+    expiryHours: z.number().positive().optional(),
+  }).optional(),                                // Scheduled multi-signature execution (direct unless given)
+  voters: z.array(ScenarioVoterSchema),
+  messages: z.array(ScenarioMessageSchema),
+  expect: ScenarioExpectationSchema,
+});
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
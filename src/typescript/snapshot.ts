@@ -1,13 +1,35 @@
 import { z } from 'zod';
 
+export const SnapshotSignatureSchema = z.object({
+  algorithm: z.enum(['ED25519', 'ECDSA_SECP256K1']),
+  public_key: z.string().describe('Raw hex public key of created_by that signed the snapshot'),
+  value: z.string().describe('Hex signature over the canonical snapshot payload without this field')
+});
+
+export type SnapshotSignature = z.infer<typeof SnapshotSignatureSchema>;
+
 export const TokenRatioSnapshotDataSchema = z.object({
-  snapshot_id: z.string().describe('Unique identifier for this snapshot'),
+  snapshot_id: z.string().describe('Unique identifier for this snapshot, derived from the round'),
   snapshot_type: z.literal('token_ratios'),
-  governance_session: z.string().describe('Session this snapshot belongs to'),
+  governance_session: z.string().describe('Session this snapshot belongs to (same as round_id)'),
+  round_id: z.string().describe('Governance round that decided the token weights'),
   token_weights: z.record(z.string(), z.number()).describe('Token ratio weights'),
-  timestamp: z.date(),
+  timestamp: z.coerce.date(),
   created_by: z.string().regex(/^0\.0\.\d+$/),
-  hash: z.string().describe('Integrity hash of token ratios')
+  hash: z.string().describe('Integrity hash of token ratios'),
+  quorum_reached: z.boolean(),
+  quorum_threshold: z.number().describe('Voting power the round needed'),
+  total_voting_power: z.number().describe('Voting power of the accepted votes'),
+  voter_count: z.number().int().nonnegative(),
+  votes_merkle_root: z.string().describe('Merkle root over the accepted votes ordered by HCS sequence number'),
+  tally_strategy: z.string().describe('Tally strategy that produced the ratios'),
+  contract_transaction_id: z.string().optional().describe('Contract update transaction; absent when the contract already held the ratios'),
+  policy: z.object({
+    action: z.enum(['passed', 'clamped']),
+    requested_weights: z.record(z.string(), z.number()),
+    violations: z.array(z.string())
+  }).optional().describe('Guardrail policy outcome; token_weights differ from requested_weights when clamped'),
+  signature: SnapshotSignatureSchema.describe('Operator signature over the whole snapshot')
 });
 
 export type TokenRatioSnapshotData = z.infer<typeof TokenRatioSnapshotDataSchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { MultiRatioVoteSchema, VoteRejectionCodeSchema, VoteRejectionSchema } from './vote.js';
+import { GovernanceResultSchema, TokenRatiosSchema } from './governance.js';
+import { GovernanceRoundSchema } from './round.js';
+import { PolicyOutcomeSchema } from './policy.js';
+import { PendingExecutionSchema } from './timelock.js';
+import { ScheduledExecutionSchema } from './execution.js';
+
+export const RecordedVoteSchema = z.object({
+  vote: MultiRatioVoteSchema,
+  sequenceNumber: z.number(),                   // HCS sequence number of the vote message
+  consensusTimestamp: z.coerce.date(),          // HCS consensus timestamp of the vote message
+  claimedVotingPower: z.number().optional(),    // Self-reported power when it differs from the verified power
+});
+
+export type RecordedVote = z.infer<typeof RecordedVoteSchema>;
+
+export const RejectedVoteSchema = z.object({
+  sequenceNumber: z.number(),
+  consensusTimestamp: z.coerce.date(),
+  voterAccountId: z.string().optional(),        // Claimed voter, when the vote could be parsed
+  rejection: VoteRejectionSchema,
+});
+
+export type RejectedVote = z.infer<typeof RejectedVoteSchema>;
+
+export const RoundStatisticsSchema = z.object({
+  messagesProcessed: z.number().default(0),     // Voting topic messages counted or rejected in this round
+  votesAccepted: z.number().default(0),         // Counted votes, re-votes included
+  votesSuperseded: z.number().default(0),       // Counted votes that replaced the voter's earlier vote
+  rejections: z.record(VoteRejectionCodeSchema, z.number()).default({}), // Rejected messages per code
+});
+
+export type RoundStatistics = z.infer<typeof RoundStatisticsSchema>;
+
+export const GovernanceStateSchema = z.object({
+  round: GovernanceRoundSchema,
+  votes: z.array(RecordedVoteSchema),           // Latest vote per voter
+  rejectedVotes: z.array(RejectedVoteSchema).default([]),
+  statistics: RoundStatisticsSchema.default({}),
+  totalVotingPower: z.number(),
+  tallyResult: GovernanceResultSchema.optional(), // Set once the round is tallied
+  winningRatios: TokenRatiosSchema.optional(),  // Contract ratios derived from the tally
+  policyOutcome: PolicyOutcomeSchema.optional(), // Guardrail check of winningRatios, decides what is executed
+  pendingExecution: PendingExecutionSchema.optional(), // Set when the result enters the timelock
+  scheduledExecution: ScheduledExecutionSchema.optional(), // Set when the update is scheduled for multi-signature execution
+  contractUpdateSentAt: z.coerce.date().optional(), // Set just before the update transaction is sent
+  contractTransactionId: z.string().optional(), // Set once the contract is updated
+  contractUnchanged: z.boolean().optional(),    // Set when the contract already held the winning ratios
+  snapshotId: z.string().optional(),            // Set once the snapshot is published
+  lastSequenceNumber: z.number().optional(),    // Checkpoint of the last processed voting topic message
+  lastConsensusTimestamp: z.coerce.date().optional(),
+  heldThroughSequenceNumber: z.number().optional(), // Last message held for the next round while the result was decided
+});
+
+export type GovernanceState = z.infer<typeof GovernanceStateSchema>;
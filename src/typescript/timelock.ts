@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { TokenRatiosSchema } from './governance.js';
+
+export const VetoMessageSchema = z.object({
+  type: z.literal('VETO'),
+  roundId: z.string(),                          // Round whose pending execution is vetoed
+  guardianAccountId: z.string().regex(/^0\.0\.\d+$/),
+  reason: z.string().optional(),
+  signature: z.string(),                        // Hex signature of vetoSigningPayload() by the guardian's key
+});
+
+export type VetoMessage = z.infer<typeof VetoMessageSchema>;
+
+export const PendingExecutionRecordSchema = z.object({
+  type: z.literal('PENDING_EXECUTION'),
+  version: z.literal(1),
+  roundId: z.string(),
+  ratios: TokenRatiosSchema,                    // Ratios that will be sent to the contract at the ETA
+  eta: z.coerce.date(),                         // Vetoes must reach consensus before this time
+  guardians: z.array(z.string()),
+});
+
+export type PendingExecutionRecord = z.infer<typeof PendingExecutionRecordSchema>;
+
+export const PendingExecutionSchema = z.object({
+  roundId: z.string(),
+  ratios: TokenRatiosSchema,
+  createdAt: z.coerce.date(),
+  eta: z.coerce.date(),
+  veto: z.object({
+    guardianAccountId: z.string(),
+    reason: z.string().optional(),
+    sequenceNumber: z.number(),                 // Control topic message that carried the veto
+    consensusTimestamp: z.coerce.date(),
+  }).optional(),
+});
+
+export type PendingExecution = z.infer<typeof PendingExecutionSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const TokenConfigSchema = z.object({
+  symbol: z.string().min(1),                    // Token identifier used in votes and snapshots
+  tokenId: z.string().regex(/^0\.0\.\d+$/).nullable(), // Hedera token ID (null for native HBAR)
+  decimals: z.number().int().min(0),
+  contractParamIndex: z.number().int().min(0),  // Position of this token's ratio in the contract call
+  minRatio: z.number().min(0).max(100).default(0),   // Lowest allowed ratio (%)
+  maxRatio: z.number().min(0).max(100).default(100), // Highest allowed ratio (%)
+});
+
+export type TokenConfig = z.infer<typeof TokenConfigSchema>;
+
+export const TokenRegistryConfigSchema = z.object({
+  tokens: z.array(TokenConfigSchema).min(1),
+});
+
+export type TokenRegistryConfig = z.infer<typeof TokenRegistryConfigSchema>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// One line of a JSONL topic export (npm run check:topic -- --export <file>)
+export const ExportedTopicMessageSchema = z.object({
+  sequence: z.coerce.number().int().positive(), // HCS sequence number
+  timestamp: z.coerce.date(),                   // Consensus timestamp
+  content: z.string(),                          // Raw message body (UTF-8)
+});
+
+export type ExportedTopicMessage = z.infer<typeof ExportedTopicMessageSchema>;
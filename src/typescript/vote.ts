@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-export const MultiRatioVoteSchema = z.object({
+export const MultiRatioVoteFieldsSchema = z.object({
   type: z.literal('MULTI_RATIO_VOTE'),          // Identifies this as a multi-ratio vote
   ratioChanges: z.array(z.object({
     token: z.string(),                          // Token identifier
@@ -11,6 +11,42 @@ export const MultiRatioVoteSchema = z.object({
   timestamp: z.coerce.date(),                   // When the vote was cast (auto-converts strings)
   txId: z.string().optional(),                  // Optional transaction ID
   reason: z.string().optional(),                // Optional reason for the vote
+  signature: z.string().optional(),             // Optional hex signature of voteSigningPayload() by the voter's key
 });
 
+// A ballot is a complete allocation: its own ratios must sum to 100%
+export const MultiRatioVoteSchema = MultiRatioVoteFieldsSchema.refine(
+  vote => Math.abs(vote.ratioChanges.reduce((sum, change) => sum + change.newRatio, 0) - 100) <= 0.01,
+  { message: 'Ratios must sum to 100%', path: ['ratioChanges'] }
+);
+
 export type MultiRatioVote = z.infer<typeof MultiRatioVoteSchema>;
+
+export const VoteRejectionCodeSchema = z.enum([
+  'INVALID_JSON',                               // Raw message is not JSON
+  'INVALID_HCS2_MESSAGE',                       // Not a valid HCS-2 register envelope
+  'INVALID_METADATA_JSON',                      // HCS-2 metadata is not JSON
+  'INVALID_VOTE_SCHEMA',                        // Metadata failed MultiRatioVoteFieldsSchema
+  'TOPIC_MISMATCH',                             // HCS-2 t_id is not the voting topic
+  'DUPLICATE_TOKEN',                            // A token appears more than once in ratioChanges
+  'UNKNOWN_TOKEN',                              // Vote names a token that is not in the token registry
+  'RATIO_SUM_INVALID',                          // Ratios do not sum to 100%
+  'RATIO_OUT_OF_BOUNDS',                        // Ratio is outside the token's configured min/max
+  'VOTE_OUTSIDE_ROUND',                         // Vote timestamp is outside the round window
+  'PAYER_UNKNOWN',                              // Message has no initial transaction ID to identify the payer
+  'PAYER_MISMATCH',                             // voterAccountId is not the account that submitted the message
+  'MISSING_SIGNATURE',                          // Signatures are required and the vote has none
+  'INVALID_SIGNATURE',                          // Signature does not verify against the voter's public key
+  'NO_VOTING_POWER',                            // Voter holds no governance tokens
+  'VOTING_POWER_MISMATCH',                      // Claimed power exceeds on-chain balance
+]);
+
+export type VoteRejectionCode = z.infer<typeof VoteRejectionCodeSchema>;
+
+export const VoteRejectionSchema = z.object({
+  code: VoteRejectionCodeSchema,
+  reason: z.string(),
+  details: z.unknown().optional(),
+});
+
+export type VoteRejection = z.infer<typeof VoteRejectionSchema>;
@@ -0,0 +1,185 @@
+import { config } from 'dotenv';
+import { ReconciliationPolicySchema, TallyStrategyNameSchema } from '../typescript/governance.js';
+import { RoundConfig } from '../governance/round.js';
+import { RoundOutcome, SnapshotComparison, backtestRounds, compareWithSnapshots, readTopicExport } from '../governance/backtest.js';
+import { SnapshotEntry, readSnapshotHistory } from '../governance/snapshot-history.js';
+import { loadTokenRegistry } from '../governance/token-registry.js';
+
+config();
+
+const USAGE = `Usage: npm run backtest -- <messages.jsonl> [options]
+
+Replays an exported voting topic (npm run check:topic -- --export <file>) offline.
+The first run uses the configured rules (.env); each option below adds a run that
+changes only that rule, for comparison.
+
+  --quorum <power>             Alternative quorum threshold (repeatable)
+  --strategy <name>            Alternative tally strategy (repeatable)
+  --reconciliation <policy>    Alternative reconciliation policy (repeatable)
+  --duration-hours <hours>     Alternative round duration (repeatable)
+  --snapshots <file>           Compare each run with the snapshots actually published, from
+                               an export of TOKEN_RATIO_SNAPSHOT_TOPIC
+                               (npm run check:topic -- --topic <id> --export <file>)
+  --json                       Print outcomes as JSON instead of a report`;
+
+interface BacktestVariant {
+    label: string;
+    config: RoundConfig;
+}
+
+function parseArgs(argv: string[]): { file?: string; snapshotsFile?: string; json: boolean; variants: BacktestVariant[] } {
+    const base: RoundConfig = {
+        quorumThreshold: Number(process.env.QUORUM_THRESHOLD || 1000),
+        durationMs: Number(process.env.ROUND_DURATION_HOURS || 24) * 60 * 60 * 1000,
+        tallyStrategy: TallyStrategyNameSchema.parse(process.env.TALLY_STRATEGY || 'plurality'),
+        reconciliationPolicy: ReconciliationPolicySchema.parse(process.env.RATIO_RECONCILIATION_POLICY || 'normalize')
+    };
+    const variants: BacktestVariant[] = [{ label: 'configured', config: base }];
+    let file: string | undefined;
+    let snapshotsFile: string | undefined;
+    let json = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) throw new Error(`${arg} needs a value`);
+            return next;
+        };
+        switch (arg) {
+            case '--quorum': {
+                const quorumThreshold = Number(value());
+                variants.push({ label: `quorum=${quorumThreshold}`, config: { ...base, quorumThreshold } });
+                break;
+            }
+            case '--strategy': {
+                const tallyStrategy = TallyStrategyNameSchema.parse(value());
+                variants.push({ label: `strategy=${tallyStrategy}`, config: { ...base, tallyStrategy } });
+                break;
+            }
+            case '--reconciliation': {
+                const reconciliationPolicy = ReconciliationPolicySchema.parse(value());
+                variants.push({ label: `reconciliation=${reconciliationPolicy}`, config: { ...base, reconciliationPolicy } });
+                break;
+            }
+            case '--duration-hours': {
+                const hours = Number(value());
+                variants.push({ label: `duration=${hours}h`, config: { ...base, durationMs: hours * 60 * 60 * 1000 } });
+                break;
+            }
+            case '--snapshots':
+                snapshotsFile = value();
+                break;
+            case '--json':
+                json = true;
+                break;
+            default:
+                if (arg.startsWith('--') || file) throw new Error(`Unexpected argument ${arg}`);
+                file = arg;
+        }
+    }
+
+    return { file, snapshotsFile, json, variants };
+}
+
+function formatRatios(ratios?: Record<string, number>): string {
+    return ratios
+        ? Object.entries(ratios).map(([token, ratio]) => `${token} ${ratio}%`).join(', ')
+        : '-';
+}
+
+function printReport(variant: BacktestVariant, outcomes: RoundOutcome[]): void {
+    const { quorumThreshold, durationMs, tallyStrategy, reconciliationPolicy } = variant.config;
+    console.log(`\n📊 ${variant.label}: quorum ${quorumThreshold}, ${durationMs / 3600000}h rounds, ${tallyStrategy}, ${reconciliationPolicy}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    for (const outcome of outcomes) {
+        const { round } = outcome;
+        const rejected = Object.entries(outcome.rejections).map(([code, count]) => `${code}×${count}`).join(', ');
+        console.log(`${round.status.padEnd(9)} ${round.startTime.toISOString()} → ${(round.closedAt ?? round.votingDeadline).toISOString()}`);
+        console.log(`          ${outcome.votes.length} voters, ${outcome.totalVotingPower}/${round.quorum.threshold} power${rejected ? `, rejected: ${rejected}` : ''}`);
+        if (outcome.winningRatios) {
+            console.log(`          ratios: ${formatRatios(outcome.winningRatios)}`);
+        }
+        if (round.failureReason && round.status === 'FAILED') {
+            console.log(`          reason: ${round.failureReason}`);
+        }
+    }
+}
+
+function printComparison(results: { variant: BacktestVariant; outcomes: RoundOutcome[] }[]): void {
+    console.log('\n⚖️  Comparison');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    for (const { variant, outcomes } of results) {
+        const count = (status: string) => outcomes.filter(outcome => outcome.round.status === status).length;
+        const lastExecuted = [...outcomes].reverse().find(outcome => outcome.round.status === 'EXECUTED');
+        console.log(`${variant.label.padEnd(28)} executed ${count('EXECUTED')}, failed ${count('FAILED')}, expired ${count('EXPIRED')}, open ${count('OPEN')}`);
+        console.log(`${''.padEnd(28)} last ratios: ${formatRatios(lastExecuted?.winningRatios)}`);
+    }
+}
+
+function printSnapshotComparison(variant: BacktestVariant, comparisons: SnapshotComparison[]): void {
+    const matched = comparisons.filter(comparison => comparison.differences.length === 0).length;
+    console.log(`\n🆚 ${variant.label} against published snapshots: ${matched}/${comparisons.length} reproduced`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    for (const comparison of comparisons) {
+        const marker = comparison.differences.length === 0 ? '✅' : '❌';
+        console.log(`${marker} ${comparison.snapshotId} ${comparison.publishedAt.toISOString()}: ${formatRatios(comparison.published)}`);
+        if (comparison.differences.length > 0) {
+            console.log(`          replay: ${comparison.differences.join('; ')}`);
+        }
+    }
+}
+
+async function backtestVotes(): Promise<void> {
+    const { file, snapshotsFile, json, variants } = parseArgs(process.argv.slice(2));
+    if (!file) {
+        console.log(USAGE);
+        process.exit(1);
+    }
+
+    const messages = await readTopicExport(file);
+    const registry = loadTokenRegistry();
+    // Signatures are checked against the embedded key only; check:snapshots verifies the creator
+    const snapshots: SnapshotEntry[] | undefined = snapshotsFile
+        ? await readSnapshotHistory(await readTopicExport(snapshotsFile))
+        : undefined;
+    const results = variants.map(variant => {
+        const outcomes = backtestRounds(messages, variant.config, registry);
+        return { variant, outcomes, comparisons: snapshots && compareWithSnapshots(outcomes, snapshots) };
+    });
+
+    if (json) {
+        console.log(JSON.stringify(results.map(({ variant, outcomes, comparisons }) => ({ label: variant.label, config: variant.config, outcomes, snapshots: comparisons })), null, 2));
+        return;
+    }
+
+    console.log('⏪ Voting Topic Backtest');
+    console.log('========================');
+    console.log(`📄 ${messages.length} messages from ${file}`);
+    console.log('⚠️  Offline: payer, signature and on-chain voting power checks are skipped');
+    for (const { variant, outcomes } of results) {
+        printReport(variant, outcomes);
+    }
+    if (results.length > 1) {
+        printComparison(results);
+    }
+    if (snapshots) {
+        const skipped = snapshots.filter(entry => !entry.snapshot || entry.issues.length > 0).length;
+        if (skipped > 0) {
+            console.log(`\n⚠️  ${skipped} snapshot topic messages failed their checks and are not compared (see npm run check:snapshots)`);
+        }
+        for (const { variant, comparisons } of results) {
+            printSnapshotComparison(variant, comparisons!);
+        }
+    }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    backtestVotes().catch(error => {
+        console.error('❌ Backtest failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
+}
+
+export { backtestVotes };
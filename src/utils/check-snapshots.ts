@@ -0,0 +1,180 @@
+import { config } from 'dotenv';
+import { AccountId, Client } from '@hashgraph/sdk';
+import { parseOperatorKey } from '../agent/agent-env.js';
+import { SnapshotEntry, readSnapshotHistory, weightChanges } from '../governance/snapshot-history.js';
+import { fetchTopicMessages } from '../governance/topic-history.js';
+import { readTopicExport } from '../governance/backtest.js';
+import { ratioDifferences, readContractRatios } from '../governance/contract-ratios.js';
+import { loadTokenRegistry } from '../governance/token-registry.js';
+import { MirrorNodeAccountKeyResolver } from '../governance/vote-auth.js';
+import { mirrorNodeUrlFor } from '../governance/voting-power.js';
+import { HederaContractGateway } from '../transport/contract-gateway.js';
+import { TokenRatios } from '../typescript/governance.js';
+
+config();
+
+const USAGE = `Usage: npm run check:snapshots -- [options]
+
+Reads the snapshot history of TOKEN_RATIO_SNAPSHOT_TOPIC from the mirror node, checks
+every entry against TokenRatioSnapshotDataSchema, its integrity hash and the signature of
+its creator, and shows how the token weights changed from round to round.
+
+  --file <messages.jsonl>      Read a topic export (npm run check:topic -- --export) instead
+  --contract                   Also check the latest snapshot against LYNX_CONTRACT, read
+                               through LYNX_RATIOS_FUNCTION
+  --json                       Print the entries as JSON instead of a report
+  --help                       Show this message
+
+Exits with 1 when an entry fails a check or the contract holds other ratios.`;
+
+interface CheckOptions {
+    file?: string;
+    contract: boolean;
+    json: boolean;
+}
+
+interface ContractCheck {
+    contractId: string;
+    snapshotId: string;
+    ratios?: TokenRatios;
+    differences: string[];
+}
+
+function parseArgs(argv: string[]): CheckOptions | null {
+    const options: CheckOptions = { contract: false, json: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--file':
+                options.file = argv[++i];
+                if (!options.file) throw new Error('--file needs a value');
+                break;
+            case '--contract':
+                options.contract = true;
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            case '--help':
+                return null;
+            default:
+                throw new Error(`Unexpected argument ${arg}`);
+        }
+    }
+    return options;
+}
+
+function formatWeights(weights: Record<string, number>): string {
+    return Object.entries(weights).map(([token, ratio]) => `${token} ${ratio}%`).join(', ');
+}
+
+function printHistory(entries: SnapshotEntry[]): void {
+    let previous: Record<string, number> | undefined;
+    for (const entry of entries) {
+        const { snapshot } = entry;
+        const marker = entry.issues.length === 0 ? '✅' : '❌';
+        console.log(`${marker} #${entry.sequence} ${entry.timestamp.toISOString()} ${snapshot?.snapshot_id ?? '(unreadable)'}`);
+        for (const issue of entry.issues) {
+            console.log(`          ⚠️  ${issue}`);
+        }
+        if (!snapshot) {
+            continue;
+        }
+
+        console.log(`          round ${snapshot.round_id}, ${snapshot.voter_count} voters, ${snapshot.total_voting_power}/${snapshot.quorum_threshold} power, ${snapshot.tally_strategy}`);
+        if (!previous) {
+            console.log(`          weights: ${formatWeights(snapshot.token_weights)}`);
+        } else {
+            const changes = weightChanges(previous, snapshot.token_weights);
+            console.log(`          changes: ${changes.length > 0 ? changes.join(', ') : 'none'}`);
+        }
+        previous = snapshot.token_weights;
+    }
+}
+
+async function checkContract(latest: SnapshotEntry): Promise<ContractCheck> {
+    const contractId = process.env.LYNX_CONTRACT!;
+    const client = Client.forTestnet();
+    client.setOperator(AccountId.fromString(process.env.HEDERA_ACCOUNT_ID!), parseOperatorKey(process.env.HEDERA_PRIVATE_KEY!));
+
+    try {
+        const ratios = await readContractRatios(
+            new HederaContractGateway(client),
+            contractId,
+            loadTokenRegistry(),
+            process.env.LYNX_RATIOS_FUNCTION!
+        );
+        return {
+            contractId,
+            snapshotId: latest.snapshot!.snapshot_id,
+            ratios,
+            differences: ratioDifferences(latest.snapshot!.token_weights, ratios)
+        };
+    } finally {
+        client.close();
+    }
+}
+
+async function checkSnapshots(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options) {
+        console.log(USAGE);
+        return;
+    }
+
+    const mirrorNodeUrl = process.env.MIRROR_NODE_URL || mirrorNodeUrlFor(process.env.HEDERA_NETWORK);
+    const topicId = process.env.TOKEN_RATIO_SNAPSHOT_TOPIC;
+    if (!options.file && !topicId) {
+        throw new Error('Set TOKEN_RATIO_SNAPSHOT_TOPIC or pass --file');
+    }
+    if (options.contract && !process.env.LYNX_RATIOS_FUNCTION) {
+        throw new Error('--contract needs LYNX_RATIOS_FUNCTION');
+    }
+    const messages = options.file
+        ? await readTopicExport(options.file)
+        : await fetchTopicMessages(mirrorNodeUrl, topicId!);
+    const entries = await readSnapshotHistory(messages, new MirrorNodeAccountKeyResolver(mirrorNodeUrl));
+
+    // The contract should hold the weights of the latest snapshot that checks out
+    const latest = [...entries].reverse().find(entry => entry.snapshot && entry.issues.length === 0);
+    let contract: ContractCheck | undefined;
+    if (options.contract) {
+        if (!latest) {
+            throw new Error('No valid snapshot to check the contract against');
+        }
+        contract = await checkContract(latest);
+    }
+
+    const failed = entries.filter(entry => entry.issues.length > 0).length;
+    if (options.json) {
+        console.log(JSON.stringify({ entries, contract }, null, 2));
+    } else {
+        console.log('📸 Snapshot History');
+        console.log('===================');
+        console.log(`📄 ${entries.length} messages from ${options.file ?? topicId}\n`);
+        printHistory(entries);
+
+        console.log('\n📊 Summary');
+        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+        console.log(`${entries.length - failed} valid, ${failed} failed`);
+        if (contract) {
+            console.log(contract.differences.length === 0
+                ? `✅ ${contract.contractId} holds the weights of ${contract.snapshotId}`
+                : `❌ ${contract.contractId} differs from ${contract.snapshotId}: ${contract.differences.join('; ')}`);
+        }
+    }
+
+    if (failed > 0 || (contract && contract.differences.length > 0)) {
+        process.exitCode = 1;
+    }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    checkSnapshots().catch(error => {
+        console.error('❌ Snapshot check failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
+}
+
+export { checkSnapshots };
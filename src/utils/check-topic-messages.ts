@@ -1,12 +1,63 @@
 import { config } from 'dotenv';
 import { Client, TopicMessageQuery, PrivateKey, AccountId } from '@hashgraph/sdk';
+import { writeFile } from 'fs/promises';
+import { TopicMessageRange, fetchTopicMessages } from '../governance/topic-history.js';
+import { mirrorNodeUrlFor } from '../governance/voting-power.js';
 
 config();
 
+function optionValue(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    const value = index >= 0 ? process.argv[index + 1] : undefined;
+    return value?.startsWith('--') ? undefined : value;
+}
+
+function dateOption(name: string): Date | undefined {
+    const value = optionValue(name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`${name} needs an ISO date, got ${value}`);
+    }
+    return date;
+}
+
+/**
+ * Write the topic's full history (or the --from/--to window) as JSONL for offline replay
+ * (npm run backtest), paging through the mirror node instead of a time-limited subscription.
+ */
+async function exportTopicMessages(topicId: string, exportPath: string): Promise<void> {
+    const range: TopicMessageRange = { from: dateOption('--from'), to: dateOption('--to') };
+    const mirrorNodeUrl = process.env.MIRROR_NODE_URL || mirrorNodeUrlFor(process.env.HEDERA_NETWORK);
+    console.log('📊 Exporting topic:', topicId);
+    console.log(`🕒 Time range: ${range.from?.toISOString() ?? 'first message'} → ${range.to?.toISOString() ?? 'now'}\n`);
+
+    const messages = await fetchTopicMessages(mirrorNodeUrl, topicId, range);
+    await writeFile(exportPath, messages.map(message => JSON.stringify(message)).join('\n') + '\n');
+    console.log(`💾 Exported ${messages.length} messages to ${exportPath}`);
+    if (messages.length > 0) {
+        console.log(`🔗 Sequence ${messages[0].sequence} → ${messages[messages.length - 1].sequence}`);
+    }
+}
+
 async function checkTopicMessages() {
     console.log('🔍 Topic Message Inspector');
     console.log('===========================');
 
+    if (process.argv.includes('--export')) {
+        // Any topic can be exported, e.g. the snapshot topic to compare a backtest with
+        const topicId = optionValue('--topic') ?? process.env.CURRENT_ROUND_VOTING_TOPIC!;
+        try {
+            await exportTopicMessages(topicId, optionValue('--export') ?? `topic-${topicId}.jsonl`);
+        } catch (error) {
+            console.error('❌ Error exporting topic:', error);
+            process.exitCode = 1;
+        }
+        return;
+    }
+
     try {
         // Initialize Hedera client
         const client = Client.forTestnet();
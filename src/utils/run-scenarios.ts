@@ -0,0 +1,91 @@
+import { config } from 'dotenv';
+import { readFile, readdir, stat } from 'fs/promises';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Scenario, ScenarioSchema } from '../typescript/scenario.js';
+import { ScenarioResult, runScenario } from '../simulation/scenario-runner.js';
+import { loadTokenRegistry } from '../governance/token-registry.js';
+
+config();
+
+const SCENARIO_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+async function findScenarioFiles(paths: string[]): Promise<string[]> {
+    const files: string[] = [];
+    for (const path of paths) {
+        if ((await stat(path)).isDirectory()) {
+            const entries = (await readdir(path)).sort();
+            files.push(...entries.filter(entry => SCENARIO_EXTENSIONS.includes(extname(entry))).map(entry => join(path, entry)));
+        } else {
+            files.push(path);
+        }
+    }
+    return files;
+}
+
+async function loadScenario(file: string): Promise<Scenario> {
+    const raw = await readFile(file, 'utf8');
+    const data = extname(file) === '.json' ? JSON.parse(raw) : parseYaml(raw);
+    return ScenarioSchema.parse(data);
+}
+
+/**
+ * The agent logs every step; keep the report readable unless --verbose is given.
+ */
+async function quietly<T>(verbose: boolean, run: () => Promise<T>): Promise<T> {
+    if (verbose) {
+        return run();
+    }
+    const { log, warn, error } = console;
+    console.log = console.warn = console.error = () => {};
+    try {
+        return await run();
+    } finally {
+        Object.assign(console, { log, warn, error });
+    }
+}
+
+async function runScenarios(): Promise<void> {
+    const args = process.argv.slice(2);
+    const verbose = args.includes('--verbose');
+    const paths = args.filter(arg => !arg.startsWith('--'));
+
+    console.log('🎬 Governance Scenario Runner');
+    console.log('=============================');
+
+    const files = await findScenarioFiles(paths.length > 0 ? paths : ['scenarios']);
+    const registry = loadTokenRegistry();
+    const results: ScenarioResult[] = [];
+
+    for (const file of files) {
+        let result: ScenarioResult;
+        try {
+            const scenario = await loadScenario(file);
+            result = await quietly(verbose, () => runScenario(scenario, registry));
+        } catch (error) {
+            result = { name: file, passed: false, failures: [`Invalid scenario: ${error instanceof Error ? error.message : String(error)}`] };
+        }
+
+        results.push(result);
+        console.log(`${result.passed ? '✅ PASS' : '❌ FAIL'} ${result.name} (${file})`);
+        for (const failure of result.failures) {
+            console.log(`   - ${failure}`);
+        }
+    }
+
+    const failed = results.filter(result => !result.passed).length;
+    console.log(`\n📊 ${results.length - failed}/${results.length} scenarios passed`);
+    if (failed > 0) {
+        process.exit(1);
+    }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runScenarios().catch(error => {
+        console.error('❌ Scenario run failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
+}
+
+export { runScenarios };
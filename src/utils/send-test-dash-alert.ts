@@ -1,6 +1,6 @@
 import { config } from 'dotenv';
 import { Client, TopicMessageSubmitTransaction, TopicCreateTransaction, TopicInfoQuery, PrivateKey, AccountId, TopicId } from '@hashgraph/sdk';
-import { AlertSchema, Alert } from '../typescript/alert.js';
+import { createAlert, serializeAlert } from '../alerts/alert-catalog.js';
 
 config({ path: '.env' });
 
@@ -58,24 +58,22 @@ async function sendTestAlert() {
     // Get or create voting topic
     const topicId = await getOrCreateVotingTopic(client);
     
-    // Create a test vote
-    const testVote: Alert = {
-      title: 'Test Alert',
-      message: 'This is a test alert',
-      type: 'INFO',
-      timestamp: new Date()
-    };
+    // Create a test alert from the catalog (validated against GovernanceAlertSchema)
+    const testAlert = createAlert('VoteReceived', 'test-round', {
+      sequenceNumber: 0,
+      voterAccountId: operatorId.toString(),
+      votingPower: 100,
+      totalVotingPower: 100,
+      quorumThreshold: 1000
+    });
     
-    // Validate the vote against schema
-    const validatedVote = AlertSchema.parse(testVote);
-    
-    // Convert vote to JSON for submission
-    const voteMessage = JSON.stringify(validatedVote);
+    // Convert alert to JSON for submission
+    const alertMessage = serializeAlert(testAlert);
     
     // Submit to Hedera Consensus Service topic
     const transaction = new TopicMessageSubmitTransaction()
       .setTopicId(topicId)
-      .setMessage(voteMessage);
+      .setMessage(alertMessage);
     
     const response = await transaction.execute(client);
     const receipt = await response.getReceipt(client);
@@ -84,7 +82,7 @@ async function sendTestAlert() {
     console.log('Topic ID:', topicId);
     console.log('Transaction ID:', response.transactionId.toString());
     console.log('Status:', receipt.status.toString());
-    console.log('Alert details:', JSON.stringify(validatedVote, null, 2));
+    console.log('Alert details:', JSON.stringify(testAlert, null, 2));
     
   } catch (error) {
     console.error('Error sending test alert:', error);
@@ -1,7 +1,7 @@
 import { config } from 'dotenv';
 import { Client, TopicMessageSubmitTransaction, TopicCreateTransaction, TopicInfoQuery, PrivateKey, AccountId, TopicId } from '@hashgraph/sdk';
 import { TokenRatioSnapshotData, TokenRatioSnapshotDataSchema } from '../typescript/snapshot.js';
-import { createHash } from 'crypto';
+import { signSnapshot, tokenWeightsHash, votesMerkleRoot } from '../governance/snapshot-provenance.js';
 
 config({ path: '.env' });
 
@@ -84,19 +84,26 @@ async function sendTestSnapshot() {
     };
     
     // Generate hash for integrity
-    const weightsString = JSON.stringify(tokenWeights, Object.keys(tokenWeights).sort());
-    const hash = createHash('sha256').update(weightsString).digest('hex');
+    const hash = tokenWeightsHash(tokenWeights);
     
-    // Create a test snapshot
-    const testSnapshot: TokenRatioSnapshotData = {
-      snapshot_id: `snapshot_${Date.now()}`,
+    // Create a test snapshot of a round without votes, signed with the operator key
+    const roundId = `round_test_${Date.now()}`;
+    const testSnapshot: TokenRatioSnapshotData = signSnapshot({
+      snapshot_id: `snapshot_${roundId}`,
       snapshot_type: 'token_ratios',
-      governance_session: 'session_2024_q1',
+      governance_session: roundId,
+      round_id: roundId,
       token_weights: tokenWeights,
       timestamp: new Date(),
       created_by: process.env.HEDERA_ACCOUNT_ID!,
-      hash: hash
-    };
+      hash: hash,
+      quorum_reached: false,
+      quorum_threshold: 1000,
+      total_voting_power: 0,
+      voter_count: 0,
+      votes_merkle_root: votesMerkleRoot([]),
+      tally_strategy: 'plurality'
+    }, operatorPrivateKey);
     
     // Validate the snapshot against schema
     const validatedSnapshot = TokenRatioSnapshotDataSchema.parse(testSnapshot);
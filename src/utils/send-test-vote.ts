@@ -1,6 +1,7 @@
 import { config } from 'dotenv';
 import { Client, TopicMessageSubmitTransaction, TopicCreateTransaction, TopicInfoQuery, PrivateKey, AccountId, TopicId } from '@hashgraph/sdk';
 import { MultiRatioVote, MultiRatioVoteSchema } from '../typescript/vote.js';
+import { voteSigningPayload } from '../governance/vote-auth.js';
 
 config({ path: '.env' });
 
@@ -94,6 +95,9 @@ async function sendTestVote() {
     // Validate the vote against schema
     const validatedVote = MultiRatioVoteSchema.parse(testVote);
     
+    // Sign the vote with the voter's key (detached signature in the metadata)
+    validatedVote.signature = Buffer.from(operatorPrivateKey.sign(voteSigningPayload(validatedVote))).toString('hex');
+    
     // Wrap in HCS-2 format
     const hcs2Message = {
       "p": "hcs-2",
@@ -2,11 +2,13 @@ import { config } from 'dotenv';
 import { 
     Client, 
     ContractExecuteTransaction, 
-    ContractFunctionParameters,
-    ContractCallQuery,
     PrivateKey,
     AccountId
 } from '@hashgraph/sdk';
+import { loadTokenRegistry } from '../governance/token-registry.js';
+import { DEFAULT_GOVERNANCE_UPDATE_FUNCTION, accountEvmAddress, readRoleHolders, roleFor, updateFunctionFor } from '../governance/contract-roles.js';
+import { HederaContractGateway } from '../transport/contract-gateway.js';
+import { ContractRole } from '../typescript/governance.js';
 
 // Load environment variables
 config();
@@ -37,84 +39,61 @@ async function testContractUpdate() {
         console.log('✅ Client initialized with admin operator:', process.env.HEDERA_ACCOUNT_ID);
 
         // Test ratios (same as from agent logs)
-        const testRatios = {
-            hbarRatio: 50,
-            wbtcRatio: 3,
-            sauceRatio: 7,
-            usdcRatio: 20,
-            jamRatio: 10,
-            headstartRatio: 10
+        const registry = loadTokenRegistry();
+        const testRatios: Record<string, number> = {
+            HBAR: 50,
+            WBTC: 3,
+            SAUCE: 7,
+            USDC: 20,
+            JAM: 10,
+            HEADSTART: 10
         };
 
         console.log('\n📊 Test Ratios:');
-        console.log('HBAR:', testRatios.hbarRatio);
-        console.log('WBTC:', testRatios.wbtcRatio);
-        console.log('SAUCE:', testRatios.sauceRatio);
-        console.log('USDC:', testRatios.usdcRatio);
-        console.log('JAM:', testRatios.jamRatio);
-        console.log('HEADSTART:', testRatios.headstartRatio);
+        for (const symbol of registry.symbols) {
+            console.log(`${symbol}:`, testRatios[symbol]);
+        }
         console.log('Total:', Object.values(testRatios).reduce((a, b) => a + b, 0));
 
+        const ratioErrors = registry.validateRatios(testRatios);
+        if (ratioErrors.length > 0) {
+            throw new Error(`Test ratios do not match the token registry: ${ratioErrors.join('; ')}`);
+        }
+
         // Contract details
         const contractId = process.env.LYNX_CONTRACT!;
         console.log('\n🏛️ Contract ID:', contractId);
         
-        // Query contract to get current admin address
-        console.log('\n🔍 Querying contract state...');
+        // Query the role holders and pick the update function for the operator's role
+        console.log('\n🔍 Querying contract roles...');
+        let role: ContractRole = 'admin';
         try {
-            const adminQuery = new ContractCallQuery()
-                .setContractId(contractId)
-                .setFunction('ADMIN')
-                .setGas(100000);
-            
-            const adminResult = await adminQuery.execute(client);
-            const adminAddress = `0.0.${adminResult.getUint256(0).toString()}`;
-            console.log('📋 Current ADMIN in contract:', adminAddress);
-            console.log('📋 Expected ADMIN:', process.env.HEDERA_ACCOUNT_ID);
-            
-            if (adminAddress === process.env.HEDERA_ACCOUNT_ID) {
-                console.log('✅ Admin addresses match!');
-            } else {
-                console.log('❌ Admin addresses DO NOT match!');
-            }
-            
-            // Also get governance address
-            const govQuery = new ContractCallQuery()
-                .setContractId(contractId)
-                .setFunction('GOVERNANCE')
-                .setGas(100000);
-            
-            const govResult = await govQuery.execute(client);
-            const govAddress = `0.0.${govResult.getUint256(0).toString()}`;
-            console.log('📋 Current GOVERNANCE in contract:', govAddress);
-            console.log('📋 Expected GOVERNANCE:', process.env.GOVERNANCE_ACCOUNT_ID || 'Not set');
-            
-            if (process.env.GOVERNANCE_ACCOUNT_ID && govAddress === process.env.GOVERNANCE_ACCOUNT_ID) {
-                console.log('✅ Governance addresses match!');
+            const holders = await readRoleHolders(new HederaContractGateway(client), contractId);
+            console.log('📋 GOVERNANCE in contract:', `0x${holders.governance}`);
+            console.log('📋 ADMIN in contract:', `0x${holders.admin}`);
+
+            const detected = roleFor(holders, [accountEvmAddress(process.env.HEDERA_ACCOUNT_ID!)]);
+            if (detected) {
+                role = detected;
+                console.log(`✅ ${process.env.HEDERA_ACCOUNT_ID} holds the ${detected} role`);
             } else {
-                console.log('❌ Governance addresses DO NOT match!');
+                console.log(`❌ ${process.env.HEDERA_ACCOUNT_ID} holds neither role, trying the admin path anyway`);
             }
-            
         } catch (queryError) {
-            console.log('⚠️  Could not query contract state:', queryError instanceof Error ? queryError.message : queryError);
+            console.log('⚠️  Could not query contract roles:', queryError instanceof Error ? queryError.message : queryError);
         }
-        
-        console.log('\n📞 Function: adminUpdateRatios (admin)');
+
+        const functionName = updateFunctionFor(role, process.env.LYNX_GOVERNANCE_UPDATE_FUNCTION || DEFAULT_GOVERNANCE_UPDATE_FUNCTION);
+        console.log(`\n📞 Function: ${functionName} (${role})`);
         console.log('⛽ Gas: 1,000,000');
 
-        // Create function parameters
-        const functionParameters = new ContractFunctionParameters()
-            .addUint256(testRatios.hbarRatio)
-            .addUint256(testRatios.wbtcRatio)
-            .addUint256(testRatios.sauceRatio)
-            .addUint256(testRatios.usdcRatio)
-            .addUint256(testRatios.jamRatio)
-            .addUint256(testRatios.headstartRatio);
+        // Create function parameters in registry order
+        const functionParameters = registry.toContractParameters(testRatios);
 
         // Create contract execution transaction
         const contractExecTx = new ContractExecuteTransaction()
             .setContractId(contractId)
-            .setFunction('adminUpdateRatios', functionParameters)
+            .setFunction(functionName, functionParameters)
             .setGas(1000000);
 
         console.log('\n🚀 Executing contract call...');